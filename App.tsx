@@ -5,14 +5,53 @@
 import React, { useState, ChangeEvent, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
 // FIX: Use generatePimpImage from geminiService as generateHistoricalImage is not exported.
-import { generatePimpImage } from './services/geminiService';
+import { generatePimpImage, refinePimpImage, repaintPimpImage } from './services/geminiService';
 import PolaroidCard from './components/PolaroidCard';
-// FIX: Use createLookbookPage from albumUtils as createDossierPage is not exported.
-import { createLookbookPage } from './lib/albumUtils';
+import { createCrewSheet, createLookbookPages, pickLookbookEntries } from './lib/albumUtils';
+import type { CrewSheetRow, LookbookCandidate } from './lib/albumUtils';
 import Footer from './components/Footer';
+import SettingsPanel from './components/SettingsPanel';
+import { getImageProvider } from './services/imageProvider';
+import { subscribeToApiKey } from './services/apiKeyStore';
+import { classifyError } from './services/generationErrors';
+import type { GenerationErrorInfo } from './services/generationErrors';
+import { createRetryBudget } from './services/retryPolicy';
+import type { RetryBudget } from './services/retryPolicy';
+import { PRIORITY_BATCH, PRIORITY_USER, createGenerationQueue } from './lib/generationQueue';
+import { sleep } from './lib/utils';
+import type { GenerationQueue, QueueProgress } from './lib/generationQueue';
+import { updateSettings, useSettings } from './lib/settings';
+import { applyRefinementResult, applyVariantResult, canRedo, canUndo, chooseVariant, continueRefinement, createPendingImage, getChosenUrl, redo, undo } from './lib/cardState';
+import type { GeneratedImage } from './lib/cardState';
+import { useArchetypes } from './lib/archetypeRegistry';
+import type { Archetype, ArchetypeDraft } from './lib/archetypeRegistry';
+import ArchetypeEditor from './components/ArchetypeEditor';
+import LookBuilder from './components/LookBuilder';
+import ThemeSwitcher from './components/ThemeSwitcher';
+import { getThemePacks, loadThemeFonts, useThemePack } from './themes';
+import CropDialog from './components/CropDialog';
+import { PORTRAIT_ASPECT, UploadError, fetchPhoto, finishPhoto, fitCrop, formatBytes, preparePhoto } from './lib/photoUpload';
+import type { CropRect, PreparedPhoto } from './lib/photoUpload';
+import { clearSession, getSessionExpiry, loadSession, saveSession } from './lib/sessionStore';
+import PrivacyPanel from './components/PrivacyPanel';
+import CameraCapture from './components/CameraCapture';
+import PhotoDropZone from './components/PhotoDropZone';
+import type { PhotoSource } from './components/PhotoDropZone';
+import PeopleBar from './components/PeopleBar';
+import { MAX_PEOPLE, cardKey, createPerson, personSlug, suggestPersonName } from './lib/people';
+import type { Person } from './lib/people';
+import { CREW_CARD_OWNER, getCardSource, getCastSlots } from './lib/crew';
+import type { CardSource, CrewCast } from './lib/crew';
+import CrewCasting from './components/CrewCasting';
+import LookbookPreview from './components/LookbookPreview';
+import type { LookbookOptions } from './components/LookbookPreview';
+import MaskPainter from './components/MaskPainter';
+import RefineDialog from './components/RefineDialog';
+import StyleReferencePicker from './components/StyleReferencePicker';
+import { isCrewArchetype } from './services/prompts';
 
-// FIX: Update constants to match the prompts available in geminiService.
-const PIMP_ARCHETYPES = ["Kiez-König", "Luden-Larry", "Gold-Zahn Günther", "Disco Dieter", "Porsche-Paul"];
+// Each take of a card is its own queue job.
+const variantKey = (key: string, index: number) => `${key}#${index}`;
 
 // Pre-defined positions for a more organized look on desktop
 const POSITIONS = [
@@ -23,13 +62,28 @@ const POSITIONS = [
     { top: '50%', left: '-5%', rotate: 5 },
 ];
 
+const BOARD_HEIGHT = 600;
+const BOARD_COLUMNS = 3;
+const BOARD_ROW_HEIGHT = 280;
+
+// Boards with more cards than the hand-placed positions fall back to a loose grid.
+const getCardPosition = (index: number, count: number) => {
+    if (count <= POSITIONS.length) {
+        return POSITIONS[index];
+    }
+    const row = Math.floor(index / BOARD_COLUMNS);
+    const col = index % BOARD_COLUMNS;
+    return {
+        top: `${row * BOARD_ROW_HEIGHT}px`,
+        left: `${col * 33 + (row % 2) * 4}%`,
+        rotate: ((index * 7) % 9) - 4,
+    };
+};
+
+const getBoardHeight = (count: number) => count <= POSITIONS.length
+    ? BOARD_HEIGHT
+    : Math.max(BOARD_HEIGHT, Math.ceil(count / BOARD_COLUMNS) * BOARD_ROW_HEIGHT + 180);
 
-type ImageStatus = 'pending' | 'done' | 'error';
-interface GeneratedImage {
-    status: ImageStatus;
-    url?: string;
-    error?: string;
-}
 
 // FIX: Update font to match the new theme.
 const primaryButtonClasses = "font-permanent-marker text-xl text-center text-black bg-yellow-400 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-yellow-300 shadow-[2px_2px_0px_2px_rgba(0,0,0,0.2)]";
@@ -49,204 +103,853 @@ const useMediaQuery = (query: string) => {
     return matches;
 };
 
+// Triggers a browser download of a data URL.
+const downloadDataUrl = (url: string, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+// Browsers drop or block downloads fired back to back, so several files go out one at a time.
+const DOWNLOAD_SPACING_MS = 500;
+
+const downloadDataUrls = async (files: { url: string; fileName: string }[]) => {
+    for (const [index, file] of files.entries()) {
+        if (index > 0) await sleep(DOWNLOAD_SPACING_MS);
+        downloadDataUrl(file.url, file.fileName);
+    }
+};
+
 function App() {
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+    // Everyone in the batch; the board shows one person at a time.
+    const [people, setPeople] = useState<Person[]>([]);
+    const [activePersonId, setActivePersonId] = useState<string | null>(null);
+    // A chosen photo waiting in the crop step, and whether it joins the batch or starts a new one.
+    const [pendingPhoto, setPendingPhoto] = useState<{ photo: PreparedPhoto; name: string; append: boolean } | null>(null);
+    const [isPreparingPhoto, setIsPreparingPhoto] = useState(false);
+    const [uploadError, setUploadError] = useState<string | null>(null);
+    const [isCameraOpen, setIsCameraOpen] = useState(false);
+    // When the photos were chosen; stored sessions expire relative to it.
+    const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null);
+    // Keyed by card, see `cardKey`.
     const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImage>>({});
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isDownloading, setIsDownloading] = useState<boolean>(false);
     const [appState, setAppState] = useState<'idle' | 'image-uploaded' | 'generating' | 'results-shown'>('idle');
     const dragAreaRef = useRef<HTMLDivElement>(null);
     const isMobile = useMediaQuery('(max-width: 768px)');
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isEditorOpen, setIsEditorOpen] = useState(false);
+    const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+    const [isPrivacyOpen, setIsPrivacyOpen] = useState(false);
+    const [isCastingOpen, setIsCastingOpen] = useState(false);
+    // The card whose refine box or mask painter is open.
+    const [refiningCard, setRefiningCard] = useState<{ key: string; caption: string } | null>(null);
+    const [repaintingCard, setRepaintingCard] = useState<{ key: string; caption: string } | null>(null);
+    // The cards shown in the lookbook preview, and whether confirming saves the whole crew.
+    const [lookbookPreview, setLookbookPreview] = useState<{ person: Person; candidates: LookbookCandidate[]; crew: boolean; notes: string[] } | null>(null);
+    const archetypes = useArchetypes();
+    const themePack = useThemePack();
+    // Mix-and-match looks added to the board for this batch only.
+    const [looks, setLooks] = useState<Archetype[]>([]);
+    const [cast, setCast] = useState<CrewCast>({});
+    // A still whose look every archetype follows, unless it is set to ignore it.
+    const [styleReference, setStyleReference] = useState<string | null>(null);
+    const [isPreparingReference, setIsPreparingReference] = useState(false);
+    const [referenceError, setReferenceError] = useState<string | null>(null);
+    const [isProviderReady, setIsProviderReady] = useState(() => getImageProvider().isConfigured());
+    const activePerson = people.find(person => person.id === activePersonId) ?? people[0] ?? null;
+    const uploadedImage = activePerson?.image ?? null;
+    const crewArchetypes = archetypes.filter(isCrewArchetype);
+    // Crew shots join the board once enough people are cast.
+    const boardArchetypes = activePerson
+        ? [...archetypes, ...looks].filter(archetype => getCardSource(activePerson, archetype, people, cast))
+        : [...archetypes, ...looks];
+    const sourceFor = (person: Person, archetype: Archetype) => getCardSource(person, archetype, people, cast);
+
+    // Bumped whenever the photos are replaced or discarded, so results from an
+    // earlier session can never land in the current one.
+    const sessionRef = useRef(0);
+    const settings = useSettings();
+    const queueRef = useRef<GenerationQueue | null>(null);
+    if (!queueRef.current) {
+        queueRef.current = createGenerationQueue({ concurrency: settings.concurrency });
+    }
+    const queue = queueRef.current;
+    const [queueProgress, setQueueProgress] = useState<QueueProgress | null>(null);
+
+    useEffect(() => subscribeToApiKey(() => setIsProviderReady(getImageProvider().isConfigured())), []);
+    useEffect(() => queue.setConcurrency(settings.concurrency), [queue, settings.concurrency]);
+    useEffect(() => queue.subscribe(setQueueProgress), [queue]);
+    useEffect(() => {
+        loadThemeFonts(themePack);
+        document.title = themePack.copy.title;
+    }, [themePack]);
+
+    // Bring back the board from a previous visit, unless a photo was chosen in the meantime.
+    useEffect(() => {
+        let isCurrent = true;
+        loadSession().then(stored => {
+            if (!isCurrent || !stored || sessionRef.current !== 0 || stored.people.length === 0) return;
+            const packExists = getThemePacks().some(pack => pack.id === stored.themePack);
+            if (packExists) {
+                updateSettings({ themePack: stored.themePack });
+            }
+            const hasResults = packExists && Object.keys(stored.generatedImages).length > 0;
+            setPeople(stored.people);
+            setActivePersonId(stored.activePersonId);
+            setSessionStartedAt(stored.startedAt);
+            setGeneratedImages(hasResults ? stored.generatedImages : {});
+            setLooks(hasResults ? stored.looks : []);
+            setCast(stored.cast ?? {});
+            setStyleReference(stored.styleReference ?? null);
+            setAppState(hasResults ? 'results-shown' : 'image-uploaded');
+        });
+        return () => {
+            isCurrent = false;
+        };
+    }, []);
+
+    // Keep the board on this device for as long as the user allows. Cards that
+    // are still developing are saved once they finish.
+    useEffect(() => {
+        if (sessionStartedAt === null || people.length === 0) return;
+        if (appState !== 'image-uploaded' && appState !== 'results-shown') return;
+        if (Object.values(generatedImages).some(image => image.pendingVariants > 0)) return;
+        void saveSession({
+            startedAt: sessionStartedAt,
+            themePack: themePack.id,
+            people,
+            activePersonId,
+            generatedImages,
+            looks,
+            cast,
+            styleReference: styleReference ?? undefined,
+        }, settings.keepSessionHours);
+    }, [sessionStartedAt, people, activePersonId, appState, generatedImages, looks, cast, styleReference, themePack.id, settings.keepSessionHours]);
+
+    // Delete the stored copy the moment it expires, even if the tab stays open.
+    useEffect(() => {
+        if (sessionStartedAt === null || settings.keepSessionHours <= 0) return;
+        const timer = setTimeout(() => void clearSession(), Math.max(0, getSessionExpiry(sessionStartedAt, settings.keepSessionHours) - Date.now()));
+        return () => clearTimeout(timer);
+    }, [sessionStartedAt, settings.keepSessionHours]);
+
+    const startNewSession = () => {
+        sessionRef.current += 1;
+        queue.cancelAll();
+        setIsLoading(false);
+    };
+
+    /**
+     * Runs one take for a card and applies the result, unless the job was
+     * cancelled before it succeeded or the session has moved on.
+     */
+    const runGeneration = async ({ key, images, archetype }: CardSource, signal: AbortSignal, retryBudget?: RetryBudget) => {
+        const session = sessionRef.current;
+
+        try {
+            const resultUrl = await generatePimpImage(images, archetype, {
+                budget: retryBudget,
+                signal,
+                styleReference: styleReference ?? undefined,
+            });
+            if (session !== sessionRef.current || signal.aborted) {
+                throw signal.reason;
+            }
+            // The card may have gone meanwhile, with the person it belonged to.
+            setGeneratedImages(prev => prev[key] ? {
+                ...prev,
+                [key]: applyVariantResult(prev[key], { url: resultUrl }),
+            } : prev);
+        } catch (err) {
+            if (session !== sessionRef.current) return;
+            setGeneratedImages(prev => prev[key] ? {
+                ...prev,
+                [key]: applyVariantResult(prev[key], { error: classifyError(err).toInfo() }),
+            } : prev);
+            console.error(`Failed to generate image for ${key}:`, err);
+        }
+    };
+
+    /**
+     * Queues every take for a card.
+     * @returns A promise that settles once all of them have finished or been cancelled.
+     */
+    const enqueueVariants = (source: CardSource, count: number, priority: number, retryBudget?: RetryBudget) =>
+        Promise.all(Array.from({ length: count }, (_, index) => queue.enqueue({
+            key: variantKey(source.key, index),
+            priority,
+            run: signal => runGeneration(source, signal, retryBudget),
+        })));
+
+    /**
+     * Puts people on the board, either as a new batch or added to the current one.
+     */
+    const addPeople = (added: Person[], append: boolean) => {
+        if (append) {
+            setPeople(prev => [...prev, ...added]);
+        } else {
+            startNewSession();
+            setPeople(added);
+            setSessionStartedAt(Date.now());
+            setGeneratedImages({}); // Clear previous results
+            setLooks([]);
+            setCast({});
+            setAppState('image-uploaded');
+        }
+        setActivePersonId(added[0].id);
+    };
+
+    /**
+     * Reads photos from any source (the file picker, a drop or a paste). A
+     * single photo opens the crop step; several are framed automatically and
+     * each becomes a person in the batch.
+     * @param append Whether to add to the current batch rather than start a new one.
+     */
+    const handlePhotoSources = async (sources: PhotoSource[], append = false) => {
+        setUploadError(null);
+        const room = MAX_PEOPLE - (append ? people.length : 0);
+        const picked = sources.slice(0, room);
+        if (picked.length === 0) {
+            setUploadError(`A batch holds up to ${MAX_PEOPLE} people.`);
+            return;
+        }
+
+        setIsPreparingPhoto(true);
+        const taken = append ? people.map(person => person.name) : [];
+        const problems: string[] = sources.length > room ? [`A batch holds up to ${MAX_PEOPLE} people; only the first ${room} photos were used.`] : [];
+        const readFile = (source: PhotoSource) => 'file' in source ? Promise.resolve(source.file) : fetchPhoto(source.url);
+        try {
+            if (picked.length === 1) {
+                const file = await readFile(picked[0]);
+                setPendingPhoto({ photo: await preparePhoto(file), name: suggestPersonName(file.name, taken), append });
+                return;
+            }
+            const added: Person[] = [];
+            for (const source of picked) {
+                try {
+                    const file = await readFile(source);
+                    const photo = await preparePhoto(file);
+                    const crop = fitCrop(photo.canvas.width, photo.canvas.height, PORTRAIT_ASPECT, photo.focus);
+                    const name = suggestPersonName(file.name, [...taken, ...added.map(person => person.name)]);
+                    added.push(createPerson(name, finishPhoto(photo, crop, settings.maxUploadEdge)));
+                } catch (err) {
+                    console.error("Failed to read a photo:", err);
+                    problems.push(err instanceof UploadError ? err.message : "Sorry, one of the photos couldn't be read.");
+                }
+            }
+            if (added.length > 0) {
+                addPeople(added, append);
+            }
+        } catch (err) {
+            console.error("Failed to read the photo:", err);
+            problems.push(err instanceof UploadError ? err.message : "Sorry, that photo couldn't be read.");
+        } finally {
+            setIsPreparingPhoto(false);
+            if (problems.length > 0) setUploadError(problems.join(' '));
+        }
+    };
 
+    const handleImageUpload = (e: ChangeEvent<HTMLInputElement>, append = false) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        if (files.length > 0) void handlePhotoSources(files.map(file => ({ file })), append);
+    };
 
-    const handleImageUpload = (e: ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                setUploadedImage(reader.result as string);
-                setAppState('image-uploaded');
-                setGeneratedImages({}); // Clear previous results
-            };
-            reader.readAsDataURL(file);
+    /** Finishes a chosen or captured photo and puts its person on the board. */
+    const acceptPhoto = (photo: Pick<PreparedPhoto, 'canvas'>, crop: CropRect | null, name: string, append: boolean) => {
+        try {
+            addPeople([createPerson(name, finishPhoto(photo, crop, settings.maxUploadEdge))], append);
+        } catch (err) {
+            console.error("Failed to process the photo:", err);
+            setUploadError(err instanceof UploadError ? err.message : "Sorry, that photo couldn't be processed.");
+        }
+    };
+
+    const handleCropConfirm = (crop: CropRect | null) => {
+        if (pendingPhoto) acceptPhoto(pendingPhoto.photo, crop, pendingPhoto.name, pendingPhoto.append);
+        setPendingPhoto(null);
+    };
+
+    // Camera shots are already framed, so they skip the crop step.
+    const handleCameraCapture = (frame: HTMLCanvasElement) => {
+        setIsCameraOpen(false);
+        setUploadError(null);
+        acceptPhoto({ canvas: frame }, null, suggestPersonName(undefined, []), false);
+    };
+
+    const handleStyleReference = async (file: File) => {
+        setReferenceError(null);
+        setIsPreparingReference(true);
+        try {
+            // The whole still, so its composition survives.
+            setStyleReference(finishPhoto(await preparePhoto(file), null, settings.maxUploadEdge).dataUrl);
+        } catch (err) {
+            console.error("Failed to read the style reference:", err);
+            setReferenceError(err instanceof UploadError ? err.message : "Sorry, that image couldn't be read.");
+        } finally {
+            setIsPreparingReference(false);
+        }
+    };
+
+    const handleRenamePerson = (personId: string, name: string) => {
+        setPeople(prev => prev.map(person => person.id === personId ? { ...person, name } : person));
+    };
+
+    const handleRemovePerson = (personId: string) => {
+        if (people.length <= 1) {
+            handleReset();
+            return;
+        }
+        // Their cards go with them, as does any crew shot they were cast in; stop whatever is still developing.
+        const keys = [...archetypes, ...looks].flatMap(archetype => {
+            if (!isCrewArchetype(archetype)) return [cardKey(personId, archetype.id)];
+            return getCastSlots(archetype, people, cast).includes(personId) ? [cardKey(CREW_CARD_OWNER, archetype.id)] : [];
+        });
+        keys.forEach(handleCancelPimp);
+        setGeneratedImages(prev => {
+            const next = { ...prev };
+            keys.forEach(key => delete next[key]);
+            return next;
+        });
+        setPeople(prev => prev.filter(person => person.id !== personId));
+        if (activePerson?.id === personId) {
+            setActivePersonId(null);
         }
     };
 
     const handleGenerateClick = async () => {
-        if (!uploadedImage) return;
+        if (!activePerson) return;
+        if (!isProviderReady) {
+            setIsSettingsOpen(true);
+            return;
+        }
 
         setIsLoading(true);
         setAppState('generating');
-        
+
+        // Whoever is on screen develops first. Crew shots are shared, so they are only queued once.
+        const batch = [activePerson, ...people.filter(person => person.id !== activePerson.id)];
+        const sources = new Map<string, CardSource>();
+        batch.forEach(person => boardArchetypes.forEach(archetype => {
+            const source = sourceFor(person, archetype);
+            if (source && !sources.has(source.key)) sources.set(source.key, source);
+        }));
+        const variantCount = settings.variants;
         const initialImages: Record<string, GeneratedImage> = {};
-        PIMP_ARCHETYPES.forEach(pimp => {
-            initialImages[pimp] = { status: 'pending' };
+        sources.forEach((_, key) => {
+            initialImages[key] = createPendingImage(variantCount);
         });
         setGeneratedImages(initialImages);
 
-        const concurrencyLimit = 2; // Process two at a time
-        const pimpQueue = [...PIMP_ARCHETYPES];
-
-        const processPimp = async (pimp: string) => {
-            try {
-                const resultUrl = await generatePimpImage(uploadedImage, pimp);
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [pimp]: { status: 'done', url: resultUrl },
-                }));
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [pimp]: { status: 'error', error: errorMessage },
-                }));
-                console.error(`Failed to generate image for ${pimp}:`, err);
-            }
-        };
-
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (pimpQueue.length > 0) {
-                const pimp = pimpQueue.shift();
-                if (pimp) {
-                    await processPimp(pimp);
-                }
-            }
-        });
+        const session = sessionRef.current;
+        // One retry budget for the whole batch, so rate-limited workers give up together.
+        const retryBudget = createRetryBudget();
 
-        await Promise.all(workers);
+        await Promise.all([...sources.values()].map(source => enqueueVariants(source, variantCount, PRIORITY_BATCH, retryBudget)));
 
+        if (session !== sessionRef.current) return;
         setIsLoading(false);
         setAppState('results-shown');
     };
 
-    const handleRegeneratePimp = async (pimp: string) => {
-        if (!uploadedImage) return;
+    const handleCancelGeneration = () => {
+        queue.cancelAll();
+    };
+
+    const handleCancelPimp = (key: string) => {
+        const takes = generatedImages[key]?.takes ?? 0;
+        for (let index = 0; index < takes; index++) {
+            queue.cancel(variantKey(key, index));
+        }
+    };
+
+    const handleChooseVariant = (key: string, index: number) => {
+        setGeneratedImages(prev => prev[key] ? { ...prev, [key]: chooseVariant(prev[key], index) } : prev);
+    };
 
-        if (generatedImages[pimp]?.status === 'pending') {
+    const handleRegeneratePimp = async (archetypeId: string) => {
+        const archetype = boardArchetypes.find(a => a.id === archetypeId);
+        const source = activePerson && archetype && sourceFor(activePerson, archetype);
+        if (!source) return;
+
+        const { key } = source;
+        const current = generatedImages[key];
+        if (current && current.pendingVariants > 0) {
+            // Takes still waiting in the batch just move to the front; ones
+            // already developing aren't started twice.
+            await enqueueVariants(source, current.takes, PRIORITY_USER);
             return;
         }
-        
-        console.log(`Regenerating image for ${pimp}...`);
 
+        console.log(`Regenerating image for ${key}...`);
+
+        const variantCount = settings.variants;
         setGeneratedImages(prev => ({
             ...prev,
-            [pimp]: { status: 'pending' },
+            [key]: createPendingImage(variantCount, prev[key]),
         }));
+        await enqueueVariants(source, variantCount, PRIORITY_USER);
+    };
+
+    /**
+     * Runs one edit of a card (a refinement or a repaint) and applies the
+     * result, unless the job was cancelled before it succeeded or the session
+     * has moved on.
+     */
+    const runEdit = async (
+        key: string,
+        edit: (signal: AbortSignal) => Promise<string>,
+        apply: (image: GeneratedImage, result: { url: string } | { error: GenerationErrorInfo }) => GeneratedImage,
+        signal: AbortSignal,
+    ) => {
+        const session = sessionRef.current;
 
         try {
-            const resultUrl = await generatePimpImage(uploadedImage, pimp);
-            setGeneratedImages(prev => ({
-                ...prev,
-                [pimp]: { status: 'done', url: resultUrl },
-            }));
+            const resultUrl = await edit(signal);
+            if (session !== sessionRef.current || signal.aborted) {
+                throw signal.reason;
+            }
+            setGeneratedImages(prev => prev[key] ? { ...prev, [key]: apply(prev[key], { url: resultUrl }) } : prev);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            setGeneratedImages(prev => ({
-                ...prev,
-                [pimp]: { status: 'error', error: errorMessage },
-            }));
-            console.error(`Failed to regenerate image for ${pimp}:`, err);
+            if (session !== sessionRef.current) return;
+            setGeneratedImages(prev => prev[key] ? { ...prev, [key]: apply(prev[key], { error: classifyError(err).toInfo() }) } : prev);
+            console.error(`Failed to edit image for ${key}:`, err);
         }
     };
-    
-    const handleReset = () => {
-        setUploadedImage(null);
+
+    const handleRefine = async (key: string, caption: string, instruction: string) => {
+        setRefiningCard(null);
+        const refinement = continueRefinement(generatedImages[key]);
+        if (!refinement) return;
+        if (!isProviderReady) {
+            setIsSettingsOpen(true);
+            return;
+        }
+
+        console.log(`Refining image for ${key}: ${instruction}`);
+
+        setGeneratedImages(prev => ({
+            ...prev,
+            [key]: createPendingImage(1, prev[key], instruction),
+        }));
+        await queue.enqueue({
+            key: variantKey(key, 0),
+            priority: PRIORITY_USER,
+            run: signal => runEdit(
+                key,
+                editSignal => refinePimpImage(refinement.baseUrl, refinement.steps, instruction, caption, { signal: editSignal }),
+                (image, result) => applyRefinementResult(image, refinement, instruction, result),
+                signal,
+            ),
+        });
+    };
+
+    const handleRepaint = async (key: string, caption: string, maskUrl: string, instruction: string) => {
+        setRepaintingCard(null);
+        const imageUrl = getChosenUrl(generatedImages[key]);
+        // A repaint is a step of the card's refinement conversation, so the next refine builds on it.
+        const refinement = continueRefinement(generatedImages[key]);
+        if (!imageUrl || !refinement) return;
+        if (!isProviderReady) {
+            setIsSettingsOpen(true);
+            return;
+        }
+
+        console.log(`Repainting part of the image for ${key}: ${instruction}`);
+
+        setGeneratedImages(prev => ({
+            ...prev,
+            [key]: createPendingImage(1, prev[key], instruction),
+        }));
+        await queue.enqueue({
+            key: variantKey(key, 0),
+            priority: PRIORITY_USER,
+            run: signal => runEdit(
+                key,
+                editSignal => repaintPimpImage(imageUrl, maskUrl, instruction, caption, { signal: editSignal }),
+                (image, result) => applyRefinementResult(image, refinement, instruction, result),
+                signal,
+            ),
+        });
+    };
+
+    const handleAddLook = async (draft: ArchetypeDraft) => {
+        const person = activePerson;
+        if (!person) return;
+        if (!isProviderReady) {
+            setIsSettingsOpen(true);
+            return;
+        }
+
+        const look: Archetype = { ...draft, id: `look-${Date.now().toString(36)}` };
+        const variantCount = settings.variants;
+        // Looks are shared by every board, so everyone gets the card; whoever is on screen first.
+        const sources = new Map<string, CardSource>();
+        [person, ...people.filter(other => other.id !== person.id)].forEach(other => {
+            const source = sourceFor(other, look);
+            if (source && !sources.has(source.key)) sources.set(source.key, source);
+        });
+        setLooks(prev => [...prev, look]);
+        setGeneratedImages(prev => {
+            const next = { ...prev };
+            sources.forEach((_, key) => {
+                next[key] = createPendingImage(variantCount);
+            });
+            return next;
+        });
+        if (appState === 'image-uploaded') {
+            setAppState('results-shown');
+        }
+        await Promise.all([...sources.values()].map(source =>
+            enqueueVariants(source, variantCount, source.key === cardKey(person.id, look.id) ? PRIORITY_USER : PRIORITY_BATCH)));
+    };
+
+    const handleUndo = (key: string) => {
+        setGeneratedImages(prev => prev[key] ? { ...prev, [key]: undo(prev[key]) } : prev);
+    };
+
+    const handleRedo = (key: string) => {
+        setGeneratedImages(prev => prev[key] ? { ...prev, [key]: redo(prev[key]) } : prev);
+    };
+
+    function handleReset() {
+        startNewSession();
+        setPeople([]);
+        setActivePersonId(null);
+        setSessionStartedAt(null);
         setGeneratedImages({});
+        setLooks([]);
+        setCast({});
+        setStyleReference(null);
+        setReferenceError(null);
         setAppState('idle');
+        void clearSession();
+    }
+
+    const handleSwitchThemePack = (packId: string) => {
+        if (packId === themePack.id) return;
+        // The board belongs to the old pack's archetypes; keep the photos, clear the rest.
+        if (appState === 'generating' || appState === 'results-shown') {
+            if (!confirm('Switching scenes clears the board, including every developed look. Switch anyway?')) return;
+            startNewSession();
+            setGeneratedImages({});
+            setLooks([]);
+            setAppState('image-uploaded');
+        }
+        updateSettings({ themePack: packId });
     };
 
-    const handleDownloadIndividualImage = (pimp: string) => {
-        const image = generatedImages[pimp];
-        if (image?.status === 'done' && image.url) {
-            const link = document.createElement('a');
-            link.href = image.url;
-            link.download = `hamburg-pimp-${pimp.toLowerCase().replace(' ', '-')}.jpg`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+    // File names get the person's name once there is more than one.
+    const fileNameFor = (person: Person, suffix = '') =>
+        `${themePack.lookbook.fileName}${people.length > 1 ? `-${personSlug(person)}` : ''}${suffix}.jpg`;
+
+    const handleDownloadIndividualImage = (archetypeId: string) => {
+        const archetype = boardArchetypes.find(a => a.id === archetypeId);
+        const source = activePerson && archetype && sourceFor(activePerson, archetype);
+        if (!activePerson || !source) return;
+        const image = generatedImages[source.key];
+        const url = getChosenUrl(image);
+        if (image?.status === 'done' && url) {
+            downloadDataUrl(url, fileNameFor(activePerson, `-${archetypeId}`));
         }
     };
 
-    const handleDownloadLookbook = async () => {
+    /**
+     * Lists every card on a person's board in board order, with how far it
+     * got, for the lookbook preview to choose from.
+     */
+    const getLookbookCandidates = (person: Person): LookbookCandidate[] => boardArchetypes.map(archetype => {
+        const source = sourceFor(person, archetype);
+        const image = source && generatedImages[source.key];
+        const url = getChosenUrl(image);
+        if (image?.status === 'pending') return { name: archetype.name, status: 'developing' };
+        return image?.status === 'done' && url ? { name: archetype.name, url, status: 'done' } : { name: archetype.name, status: 'failed' };
+    });
+
+    const subtitleFor = (person: Person) => people.length > 1 ? person.name : undefined;
+
+    // One file per page; sets of more than one page are numbered.
+    const pageFiles = (person: Person, pages: string[]) =>
+        pages.map((url, index) => ({ url, fileName: fileNameFor(person, pages.length > 1 ? `-p${index + 1}` : '') }));
+
+    // Opens the preview, where the layout and the looks are chosen before anything is saved.
+    const handleDownloadLookbook = () => {
+        if (!activePerson) return;
+        const candidates = getLookbookCandidates(activePerson);
+        if (!candidates.some(card => card.status === 'done')) {
+            alert("None of the looks have developed yet, so there's nothing to put in the lookbook.");
+            return;
+        }
+        setLookbookPreview({ person: activePerson, candidates, crew: false, notes: [] });
+    };
+
+    const handleDownloadCrew = () => {
+        // The preview shows the person on screen, or the first with anything to show.
+        const shown = [...people]
+            .sort((a, b) => Number(b.id === activePersonId) - Number(a.id === activePersonId))
+            .map(person => ({ person, candidates: getLookbookCandidates(person) }))
+            .find(({ candidates }) => candidates.some(card => card.status === 'done'));
+        if (!shown) {
+            alert("None of the looks have developed yet, so there's nothing to put in the lookbooks.");
+            return;
+        }
+        // The crew pack takes what has developed by the time it is saved; say whose cards aren't there yet.
+        const developing = people
+            .filter(person => getLookbookCandidates(person).some(card => card.status === 'developing'))
+            .map(person => person.name);
+        const notes = ["Saves everyone's lookbook and a crew sheet as separate images."];
+        if (developing.length > 0) {
+            notes.push(`Still developing for ${developing.join(', ')}; those cards will be missing. Wait for them to finish to include them.`);
+        }
+        setLookbookPreview({ ...shown, crew: true, notes });
+    };
+
+    const handleConfirmLookbook = async (options: LookbookOptions, pages: string[]) => {
+        updateSettings({ lookbookTemplate: options.template, lookbookFormat: options.format });
+        if (lookbookPreview && !lookbookPreview.crew) {
+            setIsDownloading(true);
+            await downloadDataUrls(pageFiles(lookbookPreview.person, pages));
+            setIsDownloading(false);
+            setLookbookPreview(null);
+            return;
+        }
+        await downloadCrew(options);
+        setLookbookPreview(null);
+    };
+
+    // Everyone's lookbook with the looks chosen in the preview, then one sheet with the whole crew.
+    const downloadCrew = async (options: LookbookOptions) => {
         setIsDownloading(true);
         try {
-            const imageData = Object.entries(generatedImages)
-                // FIX: Add explicit types to resolve 'property does not exist on type unknown' errors.
-                .filter(([, image]: [string, GeneratedImage]) => image.status === 'done' && image.url)
-                .reduce((acc, [pimp, image]: [string, GeneratedImage]) => {
-                    acc[pimp] = image!.url!;
-                    return acc;
-                }, {} as Record<string, string>);
-
-            if (Object.keys(imageData).length < PIMP_ARCHETYPES.length) {
-                alert("Please wait for all images to finish generating before downloading the lookbook.");
-                setIsDownloading(false);
+            const rows: CrewSheetRow[] = [];
+            const files: { url: string; fileName: string }[] = [];
+            for (const person of people) {
+                const candidates = getLookbookCandidates(person);
+                const entries = pickLookbookEntries(candidates, options.include, options.failed);
+                if (!entries.some(entry => entry.url)) continue;
+                files.push(...pageFiles(person, await createLookbookPages(entries, themePack, subtitleFor(person), options)));
+                const looks = entries.filter((entry): entry is { name: string; url: string } => Boolean(entry.url));
+                rows.push({ name: person.name, photo: person.image, looks });
+            }
+            if (rows.length === 0) {
+                alert("None of the chosen looks developed, so there's nothing to put in the lookbooks.");
                 return;
             }
-
-            const lookbookDataUrl = await createLookbookPage(imageData);
-
-            const link = document.createElement('a');
-            link.href = lookbookDataUrl;
-            link.download = 'hamburg-84-lookbook.jpg';
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-
+            files.push({ url: await createCrewSheet(rows, themePack), fileName: `${themePack.lookbook.fileName}-crew.jpg` });
+            await downloadDataUrls(files);
         } catch (error) {
-            console.error("Failed to create or download lookbook:", error);
-            alert("Sorry, there was an error creating your lookbook. Please try again.");
+            console.error("Failed to create or download the crew lookbooks:", error);
+            alert("Sorry, there was an error creating your lookbooks. Please try again.");
         } finally {
             setIsDownloading(false);
         }
     };
 
+    // Finished and total cards per person, for the people bar.
+    const peopleProgress = Object.fromEntries(people.map(person => {
+        const cards = boardArchetypes.map(archetype => {
+            const source = sourceFor(person, archetype);
+            return source && generatedImages[source.key];
+        }).filter(Boolean) as GeneratedImage[];
+        return [person.id, { done: cards.filter(card => card.status !== 'pending').length, total: cards.length }];
+    }));
+
+    const renderCard = (archetype: Archetype) => {
+        const key = (activePerson && sourceFor(activePerson, archetype)?.key) ?? archetype.id;
+        const image = generatedImages[key];
+        return (
+            <PolaroidCard
+                caption={archetype.name}
+                // Archetypes added after the batch started have no state yet.
+                status={image?.status || 'done'}
+                variants={image?.variants}
+                chosenVariant={image?.chosen}
+                developingCount={image?.pendingVariants}
+                error={image?.error}
+                keptPrevious={image?.keptPrevious}
+                historyPosition={image?.historyIndex}
+                historyLength={image?.history.length}
+                historyNote={image?.history[image.historyIndex]?.instruction}
+                dragConstraintsRef={isMobile ? undefined : dragAreaRef}
+                onShake={() => handleRegeneratePimp(archetype.id)}
+                onDownload={() => handleDownloadIndividualImage(archetype.id)}
+                onRefine={image?.status === 'done' && getChosenUrl(image) ? () => setRefiningCard({ key, caption: archetype.name }) : undefined}
+                onRepaint={image?.status === 'done' && getChosenUrl(image) ? () => setRepaintingCard({ key, caption: archetype.name }) : undefined}
+                onCancel={() => handleCancelPimp(key)}
+                onChooseVariant={(_, index) => handleChooseVariant(key, index)}
+                onUndo={image && canUndo(image) ? () => handleUndo(key) : undefined}
+                onRedo={image && canRedo(image) ? () => handleRedo(key) : undefined}
+                isMobile={isMobile}
+            />
+        );
+    };
+
     return (
-        <main className="bg-black text-neutral-200 min-h-screen w-full flex flex-col items-center justify-center p-4 pb-24 overflow-hidden relative">
+        <main style={{ backgroundColor: themePack.palette.background }} className="text-neutral-200 min-h-screen w-full flex flex-col items-center justify-center p-4 pb-24 overflow-hidden relative">
             <div className="absolute top-0 left-0 w-full h-full bg-grid-white/[0.05]"></div>
+
+            <button
+                onClick={() => setIsPrivacyOpen(true)}
+                className="absolute top-4 right-28 z-20 p-2 rounded-full text-neutral-400 hover:text-yellow-400 hover:bg-white/10 transition-colors duration-200"
+                aria-label="Privacy"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                </svg>
+            </button>
+            <button
+                onClick={() => setIsEditorOpen(true)}
+                className="absolute top-4 right-16 z-20 p-2 rounded-full text-neutral-400 hover:text-yellow-400 hover:bg-white/10 transition-colors duration-200"
+                aria-label="Edit archetypes"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+            </button>
+            <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="absolute top-4 right-4 z-20 p-2 rounded-full text-neutral-400 hover:text-yellow-400 hover:bg-white/10 transition-colors duration-200"
+                aria-label="Open settings"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+            </button>
             
             <div className="z-10 flex flex-col items-center justify-center w-full h-full flex-1 min-h-0">
                 <div className="text-center mb-10">
                     {/* FIX: Update UI text and styles to match the new theme */}
-                    <h1 className="text-5xl md:text-7xl font-monoton font-bold text-neutral-100 tracking-wider">Hamburg '84</h1>
-                    <p className="font-special-elite text-neutral-300 mt-4 text-xl tracking-wide">Step onto the neon-drenched Reeperbahn.</p>
+                    <h1
+                        className="text-5xl md:text-7xl font-bold tracking-wider"
+                        style={{
+                            fontFamily: themePack.fonts.display,
+                            color: themePack.palette.title,
+                            textShadow: `0 0 24px ${themePack.palette.glow}`,
+                        }}
+                    >
+                        {themePack.copy.title}
+                    </h1>
+                    <p className="mt-4 text-xl tracking-wide" style={{ fontFamily: themePack.fonts.body, color: themePack.palette.tagline }}>
+                        {themePack.copy.tagline}
+                    </p>
+                    {(appState === 'idle' || appState === 'image-uploaded') && (
+                        <ThemeSwitcher current={themePack.id} onSwitch={handleSwitchThemePack} />
+                    )}
                 </div>
 
-                {appState === 'idle' && (
-                     <div className="relative flex flex-col items-center justify-center w-full">
-                        <motion.div
-                             initial={{ opacity: 0, scale: 0.8 }}
-                             animate={{ opacity: 1, scale: 1 }}
-                             transition={{ delay: 0.5, duration: 0.8, type: 'spring' }}
-                             className="flex flex-col items-center"
-                        >
-                            <label htmlFor="file-upload" className="cursor-pointer group transform hover:scale-105 transition-transform duration-300">
-                                 <PolaroidCard 
-                                     caption="Choose Your Mugshot"
-                                     status="done"
-                                 />
-                            </label>
-                            <input id="file-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleImageUpload} />
-                            <p className="mt-8 font-special-elite text-neutral-500 text-center max-w-xs text-lg">
-                                Click the card to upload your photo and join the nightlife.
-                            </p>
-                        </motion.div>
-                    </div>
+                {appState === 'idle' && isCameraOpen && (
+                    <CameraCapture onCapture={handleCameraCapture} onCancel={() => setIsCameraOpen(false)} />
                 )}
 
-                {appState === 'image-uploaded' && uploadedImage && (
+                {appState === 'idle' && !isCameraOpen && (
+                     <PhotoDropZone onPhotos={sources => handlePhotoSources(sources, false)} onReject={setUploadError}>
+                         <div className="relative flex flex-col items-center justify-center w-full">
+                            <motion.div
+                                 initial={{ opacity: 0, scale: 0.8 }}
+                                 animate={{ opacity: 1, scale: 1 }}
+                                 transition={{ delay: 0.5, duration: 0.8, type: 'spring' }}
+                                 className="flex flex-col items-center"
+                            >
+                                <label htmlFor="file-upload" className="cursor-pointer group transform hover:scale-105 transition-transform duration-300">
+                                     <PolaroidCard 
+                                         caption="Choose Your Mugshots"
+                                         status="done"
+                                     />
+                                </label>
+                                <input id="file-upload" type="file" className="hidden" accept="image/*" multiple onChange={(e) => handleImageUpload(e)} />
+                                <p className="mt-6 font-special-elite text-neutral-500 text-center">
+                                    Pick one photo or the whole crew's, drop or paste them, or{' '}
+                                    <button
+                                        onClick={() => setIsCameraOpen(true)}
+                                        className="text-neutral-400 hover:text-yellow-400 underline"
+                                    >
+                                        snap one with your camera
+                                    </button>
+                                </p>
+                                {isPreparingPhoto && (
+                                    <p className="mt-4 font-special-elite text-neutral-400">Reading your photo...</p>
+                                )}
+                                {uploadError && (
+                                    <p className="mt-4 font-special-elite text-red-400 text-center max-w-xs">{uploadError}</p>
+                                )}
+                                {isProviderReady ? (
+                                    <p className="mt-8 font-special-elite text-neutral-500 text-center max-w-xs text-lg">
+                                        {themePack.copy.uploadHint}
+                                    </p>
+                                ) : (
+                                    <div className="mt-8 flex flex-col items-center gap-3 text-center max-w-xs">
+                                        <p className="font-special-elite text-red-400 text-lg">No API key configured.</p>
+                                        <p className="font-special-elite text-neutral-500">
+                                            You can upload a photo now, but you'll need a Gemini API key before hitting the streets.
+                                        </p>
+                                        <button onClick={() => setIsSettingsOpen(true)} className={secondaryButtonClasses}>
+                                            Add Your Key
+                                        </button>
+                                    </div>
+                                )}
+                            </motion.div>
+                        </div>
+                     </PhotoDropZone>
+                )}
+
+                {appState === 'image-uploaded' && activePerson && (
                     <div className="flex flex-col items-center gap-6">
+                         <PeopleBar
+                            people={people}
+                            activeId={activePerson.id}
+                            onSelect={setActivePersonId}
+                            onRename={handleRenamePerson}
+                            onRemove={handleRemovePerson}
+                         />
                          <PolaroidCard 
-                            imageUrl={uploadedImage} 
-                            caption="Your Mugshot" 
+                            imageUrl={activePerson.image} 
+                            caption={people.length > 1 ? activePerson.name : "Your Mugshot"} 
                             status="done"
                          />
-                         <div className="flex items-center gap-4 mt-4">
+                         {activePerson.photo && (
+                            <p className="font-special-elite text-sm text-neutral-500">
+                                Sending {activePerson.photo.width}&times;{activePerson.photo.height}, {formatBytes(activePerson.photo.bytes)}
+                            </p>
+                         )}
+                         {isPreparingPhoto && (
+                            <p className="font-special-elite text-neutral-400">Reading your photos...</p>
+                         )}
+                         {uploadError && (
+                            <p className="font-special-elite text-red-400 text-center max-w-xs">{uploadError}</p>
+                         )}
+                         <StyleReferencePicker
+                            image={styleReference}
+                            isPreparing={isPreparingReference}
+                            error={referenceError}
+                            onPick={handleStyleReference}
+                            onRemove={() => setStyleReference(null)}
+                         />
+                         <div className="flex flex-wrap items-center justify-center gap-4 mt-4">
                             <button onClick={handleReset} className={secondaryButtonClasses}>
                                 Go Straight
                             </button>
+                            {people.length < MAX_PEOPLE && (
+                                <label htmlFor="add-people" className={`${secondaryButtonClasses} cursor-pointer`}>
+                                    Add People
+                                </label>
+                            )}
+                            <input id="add-people" type="file" className="hidden" accept="image/*" multiple onChange={(e) => handleImageUpload(e, true)} />
+                            <button onClick={() => setIsBuilderOpen(true)} className={secondaryButtonClasses}>
+                                Mix &amp; Match
+                            </button>
+                            {crewArchetypes.length > 0 && (
+                                <button onClick={() => setIsCastingOpen(true)} className={secondaryButtonClasses}>
+                                    Cast the Crew
+                                </button>
+                            )}
                             <button onClick={handleGenerateClick} className={primaryButtonClasses}>
-                                Hit the Streets
+                                {isProviderReady ? themePack.copy.generateButton : 'Add Key First'}
                             </button>
                          </div>
                     </div>
@@ -254,29 +957,29 @@ function App() {
 
                 {(appState === 'generating' || appState === 'results-shown') && (
                      <>
+                        {people.length > 1 && activePerson && (
+                            <PeopleBar
+                                people={people}
+                                activeId={activePerson.id}
+                                onSelect={setActivePersonId}
+                                progress={appState === 'generating' ? peopleProgress : undefined}
+                            />
+                        )}
                         {isMobile ? (
                             <div className="w-full max-w-sm flex-1 overflow-y-auto mt-4 space-y-8 p-4">
-                                {PIMP_ARCHETYPES.map((pimp) => (
-                                    <div key={pimp} className="flex justify-center">
-                                         <PolaroidCard
-                                            caption={pimp}
-                                            status={generatedImages[pimp]?.status || 'pending'}
-                                            imageUrl={generatedImages[pimp]?.url}
-                                            error={generatedImages[pimp]?.error}
-                                            onShake={handleRegeneratePimp}
-                                            onDownload={handleDownloadIndividualImage}
-                                            isMobile={isMobile}
-                                        />
+                                {boardArchetypes.map((archetype) => (
+                                    <div key={`${activePerson?.id}/${archetype.id}`} className="flex justify-center">
+                                        {renderCard(archetype)}
                                     </div>
                                 ))}
                             </div>
                         ) : (
-                            <div ref={dragAreaRef} className="relative w-full max-w-5xl h-[600px] mt-4">
-                                {PIMP_ARCHETYPES.map((pimp, index) => {
-                                    const { top, left, rotate } = POSITIONS[index];
+                            <div ref={dragAreaRef} className="relative w-full max-w-5xl mt-4" style={{ height: getBoardHeight(boardArchetypes.length) }}>
+                                {boardArchetypes.map((archetype, index) => {
+                                    const { top, left, rotate } = getCardPosition(index, boardArchetypes.length);
                                     return (
                                         <motion.div
-                                            key={pimp}
+                                            key={`${activePerson?.id}/${archetype.id}`}
                                             className="absolute cursor-grab active:cursor-grabbing"
                                             style={{ top, left }}
                                             initial={{ opacity: 0, scale: 0.5, y: 100, rotate: 0 }}
@@ -288,22 +991,25 @@ function App() {
                                             }}
                                             transition={{ type: 'spring', stiffness: 100, damping: 20, delay: index * 0.15 }}
                                         >
-                                            <PolaroidCard 
-                                                dragConstraintsRef={dragAreaRef}
-                                                caption={pimp}
-                                                status={generatedImages[pimp]?.status || 'pending'}
-                                                imageUrl={generatedImages[pimp]?.url}
-                                                error={generatedImages[pimp]?.error}
-                                                onShake={handleRegeneratePimp}
-                                                onDownload={handleDownloadIndividualImage}
-                                                isMobile={isMobile}
-                                            />
+                                            {renderCard(archetype)}
                                         </motion.div>
                                     );
                                 })}
                             </div>
                         )}
                          <div className="h-20 mt-4 flex items-center justify-center">
+                            {appState === 'generating' && (
+                                <div className="flex flex-col sm:flex-row items-center gap-4">
+                                    {queueProgress && queueProgress.total > 0 && (
+                                        <p className="font-special-elite text-neutral-400">
+                                            Developed {queueProgress.completed} of {queueProgress.total}...
+                                        </p>
+                                    )}
+                                    <button onClick={handleCancelGeneration} className={secondaryButtonClasses}>
+                                        Cancel
+                                    </button>
+                                </div>
+                            )}
                             {appState === 'results-shown' && (
                                 <div className="flex flex-col sm:flex-row items-center gap-4">
                                     <button 
@@ -313,6 +1019,18 @@ function App() {
                                     >
                                         {isDownloading ? 'Creating Lookbook...' : 'Download Lookbook'}
                                     </button>
+                                    {people.length > 1 && (
+                                        <button
+                                            onClick={handleDownloadCrew}
+                                            disabled={isDownloading}
+                                            className={`${secondaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                        >
+                                            Download Crew Pack
+                                        </button>
+                                    )}
+                                    <button onClick={() => setIsBuilderOpen(true)} className={secondaryButtonClasses}>
+                                        Mix &amp; Match
+                                    </button>
                                     <button onClick={handleReset} className={secondaryButtonClasses}>
                                         Start Over
                                     </button>
@@ -322,7 +1040,69 @@ function App() {
                     </>
                 )}
             </div>
-            <Footer />
+            <Footer
+                currentPackId={themePack.id}
+                onSwitchPack={appState === 'idle' || appState === 'image-uploaded' ? handleSwitchThemePack : undefined}
+            />
+            {isCastingOpen && activePerson && (
+                <CrewCasting
+                    archetypes={crewArchetypes}
+                    people={people}
+                    cast={cast}
+                    onChangeCast={setCast}
+                    onAddPhotos={people.length < MAX_PEOPLE ? (e) => handleImageUpload(e, true) : undefined}
+                    isPreparingPhoto={isPreparingPhoto}
+                    uploadError={uploadError}
+                    onClose={() => setIsCastingOpen(false)}
+                />
+            )}
+            {refiningCard && getChosenUrl(generatedImages[refiningCard.key]) && (
+                <RefineDialog
+                    caption={refiningCard.caption}
+                    imageUrl={getChosenUrl(generatedImages[refiningCard.key])!}
+                    steps={continueRefinement(generatedImages[refiningCard.key])?.steps ?? []}
+                    onRefine={(instruction) => handleRefine(refiningCard.key, refiningCard.caption, instruction)}
+                    onClose={() => setRefiningCard(null)}
+                />
+            )}
+            {repaintingCard && getChosenUrl(generatedImages[repaintingCard.key]) && (
+                <MaskPainter
+                    caption={repaintingCard.caption}
+                    imageUrl={getChosenUrl(generatedImages[repaintingCard.key])!}
+                    onRepaint={(maskUrl, instruction) => handleRepaint(repaintingCard.key, repaintingCard.caption, maskUrl, instruction)}
+                    onClose={() => setRepaintingCard(null)}
+                />
+            )}
+            {lookbookPreview && (
+                <LookbookPreview
+                    candidates={lookbookPreview.candidates}
+                    pack={themePack}
+                    subtitle={subtitleFor(lookbookPreview.person)}
+                    initialLayout={{ template: settings.lookbookTemplate, format: settings.lookbookFormat }}
+                    actionLabel={lookbookPreview.crew ? 'Download Crew Pack' : 'Download Lookbook'}
+                    notes={lookbookPreview.notes}
+                    isDownloading={isDownloading}
+                    onDownload={handleConfirmLookbook}
+                    onClose={() => setLookbookPreview(null)}
+                />
+            )}
+            {pendingPhoto && (
+                <CropDialog
+                    photo={pendingPhoto.photo}
+                    maxEdge={settings.maxUploadEdge}
+                    onConfirm={handleCropConfirm}
+                    onCancel={() => setPendingPhoto(null)}
+                />
+            )}
+            {isPrivacyOpen && <PrivacyPanel onForgotten={handleReset} onClose={() => setIsPrivacyOpen(false)} />}
+            {isSettingsOpen && <SettingsPanel onClose={() => setIsSettingsOpen(false)} />}
+            {isEditorOpen && <ArchetypeEditor onClose={() => setIsEditorOpen(false)} onSwitchThemePack={handleSwitchThemePack} />}
+            {isBuilderOpen && (
+                <LookBuilder
+                    onAddToBoard={uploadedImage ? handleAddLook : undefined}
+                    onClose={() => setIsBuilderOpen(false)}
+                />
+            )}
         </main>
     );
 }
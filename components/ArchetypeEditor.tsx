@@ -0,0 +1,327 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import {
+    createArchetype,
+    deleteArchetype,
+    duplicateArchetype,
+    getArchetype,
+    getArchetypePrompt,
+    moveArchetype,
+    resetArchetypes,
+    updateArchetype,
+    useArchetypes,
+    validateArchetype,
+} from '../lib/archetypeRegistry';
+import type { Archetype, ArchetypeDraft } from '../lib/archetypeRegistry';
+import {
+    ARCHETYPE_FIELDS,
+    CREW_PROMPT_TEMPLATE,
+    DEFAULT_STYLE_STRENGTH,
+    MAX_CREW_SIZE,
+    MAX_PROMPT_LENGTH,
+    MIN_CREW_SIZE,
+    PROMPT_TEMPLATE,
+    STYLE_STRENGTHS,
+    isCrewArchetype,
+    usesStyleReference,
+} from '../services/prompts';
+import type { StyleStrength } from '../services/prompts';
+import { useThemePack } from '../themes';
+import ArchetypeTransfer from './ArchetypeTransfer';
+
+interface ArchetypeEditorProps {
+    onClose: () => void;
+    /** Switches the board to a theme pack that was just imported. */
+    onSwitchThemePack?: (packId: string) => void;
+}
+
+const NEW_ARCHETYPE = '__new__';
+const iconButtonClasses = "p-1 rounded-sm text-neutral-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent";
+const inputClasses = "bg-black/50 border border-white/30 rounded-sm px-3 py-2 focus:outline-none focus:border-yellow-400";
+
+// Every field as a plain string, so inputs stay controlled; an empty template means the shared one
+// and no roles a solo portrait.
+const toDraft = (archetype?: Archetype): ArchetypeDraft => {
+    const draft: ArchetypeDraft = {
+        name: archetype?.name ?? '',
+        persona: '',
+        template: archetype?.template ?? '',
+        roles: archetype?.roles ?? [],
+        styleStrength: archetype?.styleStrength ?? DEFAULT_STYLE_STRENGTH,
+        styleNote: archetype?.styleNote ?? '',
+    };
+    for (const { key } of ARCHETYPE_FIELDS) {
+        draft[key] = archetype?.[key] ?? '';
+    }
+    return draft;
+};
+
+const isSameDraft = (a: ArchetypeDraft, b: ArchetypeDraft) => JSON.stringify(a) === JSON.stringify(b);
+
+const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ onClose, onSwitchThemePack }) => {
+    const archetypes = useArchetypes();
+    const themePack = useThemePack();
+    const [selectedId, setSelectedId] = useState<string>(archetypes[0]?.id ?? NEW_ARCHETYPE);
+    const selected = archetypes.find(a => a.id === selectedId);
+    const [draft, setDraft] = useState(() => toDraft(selected));
+    const [validationError, setValidationError] = useState<string | null>(null);
+
+    const isDirty = !isSameDraft(draft, toDraft(selected));
+    const hasCustomTemplate = draft.template !== '';
+
+    const composed = useMemo(() => {
+        try {
+            // Shown as it reads with a style reference attached.
+            return { prompt: getArchetypePrompt(draft, { styleReference: true }) };
+        } catch (err) {
+            return { error: (err as Error).message };
+        }
+    }, [draft]);
+
+    const select = (id: string) => {
+        if (isDirty && !confirm("Discard your unsaved changes?")) return;
+        const archetype = archetypes.find(a => a.id === id);
+        setSelectedId(id);
+        setDraft(toDraft(archetype));
+        setValidationError(null);
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        const problem = validateArchetype(draft, selected?.id);
+        if (problem) {
+            setValidationError(problem);
+            return;
+        }
+        let saved: Archetype | undefined;
+        if (selected) {
+            updateArchetype(selected.id, draft);
+            saved = getArchetype(selected.id);
+        } else {
+            saved = createArchetype(draft);
+            setSelectedId(saved.id);
+        }
+        setDraft(toDraft(saved));
+        setValidationError(null);
+    };
+
+    const handleDuplicate = (id: string) => {
+        const copy = duplicateArchetype(id);
+        if (copy) {
+            setSelectedId(copy.id);
+            setDraft(toDraft(copy));
+        }
+    };
+
+    const handleDelete = (id: string) => {
+        const archetype = archetypes.find(a => a.id === id);
+        if (!archetype || !confirm(`Delete "${archetype.name}"?`)) return;
+        deleteArchetype(id);
+        if (id === selectedId) {
+            const next = archetypes.find(a => a.id !== id);
+            setSelectedId(next?.id ?? NEW_ARCHETYPE);
+            setDraft(toDraft(next));
+        }
+    };
+
+    const handleReset = () => {
+        if (!confirm(`Restore the ${themePack.name} archetypes? Your own archetypes and edits will be lost.`)) return;
+        resetArchetypes();
+        setSelectedId(NEW_ARCHETYPE);
+        setDraft(toDraft());
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-neutral-900 border border-white/20 rounded-md p-6 text-neutral-200 shadow-xl"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="archetype-editor-title"
+            >
+                <div className="flex items-center justify-between mb-6">
+                    <h2 id="archetype-editor-title" className="font-permanent-marker text-2xl text-yellow-400">The Usual Suspects</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white text-2xl leading-none" aria-label="Close archetype editor">&times;</button>
+                </div>
+
+                <div className="flex flex-col md:flex-row gap-6 min-h-0 flex-1">
+                    <div className="md:w-64 flex flex-col min-h-0">
+                        <ul className="space-y-1 overflow-y-auto flex-1">
+                            {archetypes.map((archetype, index) => (
+                                <li
+                                    key={archetype.id}
+                                    className={cn(
+                                        "flex items-center gap-1 rounded-sm pl-2",
+                                        archetype.id === selectedId ? "bg-yellow-400/20" : "hover:bg-white/5",
+                                    )}
+                                >
+                                    <button onClick={() => select(archetype.id)} className="flex-1 text-left py-1.5 font-special-elite truncate">
+                                        {archetype.name}
+                                    </button>
+                                    <button onClick={() => moveArchetype(archetype.id, -1)} disabled={index === 0} className={iconButtonClasses} aria-label={`Move ${archetype.name} up`}>&uarr;</button>
+                                    <button onClick={() => moveArchetype(archetype.id, 1)} disabled={index === archetypes.length - 1} className={iconButtonClasses} aria-label={`Move ${archetype.name} down`}>&darr;</button>
+                                    <button onClick={() => handleDuplicate(archetype.id)} className={iconButtonClasses} aria-label={`Duplicate ${archetype.name}`} title="Duplicate">&#x2398;</button>
+                                    <button onClick={() => handleDelete(archetype.id)} className={cn(iconButtonClasses, "hover:text-red-400")} aria-label={`Delete ${archetype.name}`} title="Delete">&times;</button>
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="flex flex-col gap-2 mt-4">
+                            <button
+                                onClick={() => select(NEW_ARCHETYPE)}
+                                className="font-permanent-marker text-black bg-yellow-400 py-2 px-4 rounded-sm hover:bg-yellow-300"
+                            >
+                                New Archetype
+                            </button>
+                            <button onClick={handleReset} className="text-xs text-neutral-500 hover:text-neutral-300 underline">
+                                Restore {themePack.name} archetypes
+                            </button>
+                            <ArchetypeTransfer onSwitchThemePack={onSwitchThemePack} />
+                        </div>
+                    </div>
+
+                    <form onSubmit={handleSave} className="flex-1 flex flex-col gap-3 min-h-0 overflow-y-auto pr-1">
+                        <label htmlFor="archetype-name" className="font-special-elite text-neutral-300">Name</label>
+                        <input
+                            id="archetype-name"
+                            value={draft.name}
+                            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            placeholder="e.g. Kiosk-Klaus"
+                            className={inputClasses}
+                        />
+                        {hasCustomTemplate ? (
+                            <>
+                                <div className="flex items-center justify-between">
+                                    <label htmlFor="archetype-template" className="font-special-elite text-neutral-300">Custom template</label>
+                                    <button
+                                        type="button"
+                                        onClick={() => setDraft({ ...draft, template: '' })}
+                                        className="text-xs text-neutral-500 hover:text-neutral-300 underline"
+                                    >
+                                        Use the shared template
+                                    </button>
+                                </div>
+                                <textarea
+                                    id="archetype-template"
+                                    value={draft.template}
+                                    onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                                    rows={6}
+                                    className={cn(inputClasses, "text-sm font-mono resize-y")}
+                                />
+                                <p className="text-xs text-neutral-500">
+                                    Use <code>{'{{persona}}'}</code>, <code>{'{{outfit}}'}</code> and the other fields below, <code>{'{{name}}'}</code>, <code>{'{{city}}'}</code> and <code>{'{{era}}'}</code>, or shared snippets like <code>{'{{> intro}}'}</code>. Crew shots also have <code>{'{{roles}}'}</code> and <code>{'{{count}}'}</code>.
+                                </p>
+                            </>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={() => setDraft({
+                                    ...draft,
+                                    template: isCrewArchetype(draft) ? CREW_PROMPT_TEMPLATE : themePack.prompt.template || PROMPT_TEMPLATE,
+                                })}
+                                className="self-start text-xs text-neutral-500 hover:text-neutral-300 underline"
+                            >
+                                Customize the prompt template
+                            </button>
+                        )}
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {ARCHETYPE_FIELDS.map(({ key, label, placeholder }) => (
+                                <div key={key} className={cn("flex flex-col gap-1", key === 'persona' && "sm:col-span-2")}>
+                                    <label htmlFor={`archetype-${key}`} className="font-special-elite text-sm text-neutral-300">{label}</label>
+                                    <input
+                                        id={`archetype-${key}`}
+                                        value={draft[key]}
+                                        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                                        placeholder={placeholder}
+                                        className={cn(inputClasses, "text-sm")}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <label htmlFor="archetype-roles" className="font-special-elite text-sm text-neutral-300">Crew roles</label>
+                        <textarea
+                            id="archetype-roles"
+                            value={(draft.roles ?? []).join('\n')}
+                            onChange={(e) => setDraft({ ...draft, roles: e.target.value.split('\n') })}
+                            rows={3}
+                            placeholder={'the boss, in a white suit\nthe driver, leaning on the car'}
+                            className={cn(inputClasses, "text-sm resize-y")}
+                        />
+                        <p className="text-xs text-neutral-500">
+                            One role per line. With {MIN_CREW_SIZE} to {MAX_CREW_SIZE} roles the archetype becomes a crew shot that puts several people in one scene; leave it empty for a solo portrait.
+                        </p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div className="flex flex-col gap-1">
+                                <label htmlFor="archetype-style-strength" className="font-special-elite text-sm text-neutral-300">Style reference</label>
+                                <select
+                                    id="archetype-style-strength"
+                                    value={draft.styleStrength}
+                                    onChange={(e) => setDraft({ ...draft, styleStrength: e.target.value as StyleStrength })}
+                                    className={cn(inputClasses, "text-sm")}
+                                >
+                                    {STYLE_STRENGTHS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                                </select>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                <label htmlFor="archetype-style-note" className="font-special-elite text-sm text-neutral-300">Take from the reference</label>
+                                <input
+                                    id="archetype-style-note"
+                                    value={draft.styleNote}
+                                    onChange={(e) => setDraft({ ...draft, styleNote: e.target.value })}
+                                    disabled={!usesStyleReference(draft)}
+                                    placeholder="only its colour grading"
+                                    className={cn(inputClasses, "text-sm disabled:opacity-50")}
+                                />
+                            </div>
+                        </div>
+                        <div className="flex items-center justify-between mt-2">
+                            <span className="font-special-elite text-neutral-300">Composed prompt</span>
+                            {composed.prompt !== undefined && (
+                                <span className={cn("text-xs", composed.prompt.length > MAX_PROMPT_LENGTH ? "text-red-400" : "text-neutral-500")}>
+                                    {composed.prompt.length}/{MAX_PROMPT_LENGTH}
+                                </span>
+                            )}
+                        </div>
+                        <p className={cn(
+                            "text-sm bg-black/30 border border-white/10 rounded-sm px-3 py-2 whitespace-pre-wrap",
+                            composed.error ? "text-red-400" : "text-neutral-400",
+                        )}>
+                            {composed.error ?? (composed.prompt || 'Fill in the fields to see the prompt.')}
+                        </p>
+                        {validationError && <p className="text-sm text-red-400">{validationError}</p>}
+                        <div className="flex gap-3">
+                            <button
+                                type="submit"
+                                disabled={!isDirty}
+                                className="font-permanent-marker text-black bg-yellow-400 py-2 px-4 rounded-sm hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {selected ? 'Save Changes' : 'Add to the Board'}
+                            </button>
+                            {selected && isDirty && (
+                                <button
+                                    type="button"
+                                    onClick={() => setDraft(toDraft(selected))}
+                                    className="font-permanent-marker text-white border border-white/50 py-2 px-4 rounded-sm hover:bg-white hover:text-black"
+                                >
+                                    Revert
+                                </button>
+                            )}
+                        </div>
+                    </form>
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default ArchetypeEditor;
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { ChangeEvent, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+import { ImportError, MAX_IMPORT_BYTES, exportArchetypeSet, exportThemePack, parseImportFile } from '../lib/archetypeFiles';
+import type { ImportedFile } from '../lib/archetypeFiles';
+import { findNameConflicts, forgetArchetypes, importArchetypes, useArchetypes } from '../lib/archetypeRegistry';
+import type { ImportConflictStrategy } from '../lib/archetypeRegistry';
+import { DEFAULT_THEME_PACK, deleteCustomThemePack, getThemePacks, isBundledThemePack, saveCustomThemePack, useThemePack } from '../themes';
+import type { ThemePack } from '../themes';
+
+interface ArchetypeTransferProps {
+    /** Called with an imported pack's id so the board can switch to it. */
+    onSwitchThemePack?: (packId: string) => void;
+}
+
+interface PendingImport {
+    file: ImportedFile;
+    conflicts: string[];
+}
+
+const linkButtonClasses = "text-xs text-neutral-500 hover:text-neutral-300 underline";
+
+function downloadJson(json: string, fileName: string) {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+// Pack ids are at most 40 characters, so the base is shortened to fit the suffix.
+const MAX_PACK_ID_LENGTH = 40;
+
+function uniquePackId(base: string): string {
+    const withSuffix = (suffix: string) => `${base.slice(0, MAX_PACK_ID_LENGTH - suffix.length)}${suffix}`;
+    let id = withSuffix('-imported');
+    for (let n = 2; getThemePacks().some(pack => pack.id === id); n++) {
+        id = withSuffix(`-imported-${n}`);
+    }
+    return id;
+}
+
+const ArchetypeTransfer: React.FC<ArchetypeTransferProps> = ({ onSwitchThemePack }) => {
+    const archetypes = useArchetypes();
+    const themePack = useThemePack();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [pending, setPending] = useState<PendingImport | null>(null);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const applyImport = (file: ImportedFile, strategy: ImportConflictStrategy) => {
+        setPending(null);
+        if (file.kind === 'archetype-set') {
+            const { added, replaced, skipped } = importArchetypes(file.archetypes, strategy);
+            const otherScene = file.packId && file.packId !== themePack.id
+                ? ` They were made for another scene and now use ${themePack.name}'s wording.`
+                : '';
+            setMessage({ text: `Imported ${added} new, replaced ${replaced}, skipped ${skipped}.${otherScene}`, isError: false });
+            return;
+        }
+
+        let pack: ThemePack = file.pack;
+        const existing = getThemePacks().find(p => p.id === pack.id);
+        if (existing && (isBundledThemePack(pack.id) || strategy === 'keep-both')) {
+            pack = { ...pack, id: uniquePackId(pack.id), name: isBundledThemePack(pack.id) ? pack.name : `${pack.name} (2)` };
+        } else if (existing && strategy === 'skip') {
+            setMessage({ text: `Kept your existing "${existing.name}" scene.`, isError: false });
+            return;
+        }
+        // A re-imported pack starts from the file's archetypes, not edits to the old copy.
+        forgetArchetypes(pack.id);
+        saveCustomThemePack(pack);
+        onSwitchThemePack?.(pack.id);
+        setMessage({ text: `Added the "${pack.name}" scene with ${pack.archetypes.length} archetypes.`, isError: false });
+    };
+
+    const handleRemovePack = () => {
+        if (!confirm(`Remove the "${themePack.name}" scene and its archetypes?`)) return;
+        const { id, name } = themePack;
+        onSwitchThemePack?.(DEFAULT_THEME_PACK.id);
+        deleteCustomThemePack(id);
+        forgetArchetypes(id);
+        setMessage({ text: `Removed the "${name}" scene.`, isError: false });
+    };
+
+    const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        e.target.value = '';
+        if (!selected) return;
+
+        setMessage(null);
+        if (selected.size > MAX_IMPORT_BYTES) {
+            setMessage({ text: `That file is too large (max ${MAX_IMPORT_BYTES / 1024} KB).`, isError: true });
+            return;
+        }
+        try {
+            const file = parseImportFile(await selected.text());
+            const conflicts = file.kind === 'archetype-set'
+                ? findNameConflicts(file.archetypes)
+                : getThemePacks().filter(p => p.id === file.pack.id && !isBundledThemePack(p.id)).map(p => p.name);
+            if (conflicts.length > 0) {
+                setPending({ file, conflicts });
+            } else {
+                applyImport(file, 'keep-both');
+            }
+        } catch (err) {
+            console.error("Import failed:", err);
+            setMessage({
+                text: err instanceof ImportError ? err.message : "Sorry, that file couldn't be imported.",
+                isError: true,
+            });
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2 border-t border-white/10 pt-3">
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+                <button onClick={() => fileInputRef.current?.click()} className={linkButtonClasses}>Import file</button>
+                <button onClick={() => downloadJson(exportArchetypeSet(archetypes, themePack), `${themePack.id}-archetypes.json`)} className={linkButtonClasses}>
+                    Export archetypes
+                </button>
+                <button onClick={() => downloadJson(exportThemePack(themePack, archetypes), `${themePack.id}-theme-pack.json`)} className={linkButtonClasses}>
+                    Export scene
+                </button>
+                {!isBundledThemePack(themePack.id) && (
+                    <button onClick={handleRemovePack} className={linkButtonClasses}>Remove scene</button>
+                )}
+            </div>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+
+            {pending && (
+                <div className="text-sm bg-black/40 border border-yellow-400/40 rounded-sm p-3 space-y-2">
+                    <p className="text-neutral-300">
+                        {pending.file.kind === 'archetype-set' ? 'Already on your board:' : 'You already imported:'}{' '}
+                        <span className="text-neutral-100">{pending.conflicts.join(', ')}</span>
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={() => applyImport(pending.file, 'replace')} className="font-permanent-marker text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300">Replace</button>
+                        <button onClick={() => applyImport(pending.file, 'keep-both')} className="font-permanent-marker text-white border border-white/50 py-1 px-3 rounded-sm hover:bg-white hover:text-black">Keep Both</button>
+                        <button onClick={() => applyImport(pending.file, 'skip')} className="font-permanent-marker text-white border border-white/50 py-1 px-3 rounded-sm hover:bg-white hover:text-black">Skip</button>
+                    </div>
+                </div>
+            )}
+            {message && <p className={cn("text-xs", message.isError ? "text-red-400" : "text-green-400")}>{message.text}</p>}
+        </div>
+    );
+};
+
+export default ArchetypeTransfer;
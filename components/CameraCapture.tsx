@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { CameraError, captureFrame, isFrontFacing, listCameras, openCamera, stopCamera } from '../lib/camera';
+import type { CameraDevice } from '../lib/camera';
+import { PORTRAIT_ASPECT } from '../lib/photoUpload';
+
+interface CameraCaptureProps {
+    /** Called with the snapshot once the user is happy with it. */
+    onCapture: (frame: HTMLCanvasElement) => void;
+    onCancel: () => void;
+}
+
+const COUNTDOWN_SECONDS = 3;
+
+const buttonClasses = "font-permanent-marker text-lg py-2 px-4 rounded-sm transition-colors";
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [stream, setStream] = useState<MediaStream | null>(null);
+    const [cameras, setCameras] = useState<CameraDevice[]>([]);
+    const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
+    const [error, setError] = useState<string | null>(null);
+    const [countdown, setCountdown] = useState<number | null>(null);
+    const [isFlashing, setIsFlashing] = useState(false);
+    const [snapshot, setSnapshot] = useState<{ canvas: HTMLCanvasElement; url: string } | null>(null);
+
+    // Start (or switch) the camera; the previous stream is stopped on cleanup.
+    useEffect(() => {
+        let isCurrent = true;
+        let opened: MediaStream | null = null;
+        setError(null);
+        openCamera(deviceId).then(
+            next => {
+                if (!isCurrent) {
+                    stopCamera(next);
+                    return;
+                }
+                opened = next;
+                setStream(next);
+                // Device labels are only available once access has been granted.
+                listCameras().then(found => isCurrent && setCameras(found));
+            },
+            err => {
+                if (!isCurrent) return;
+                console.error("Failed to start the camera:", err);
+                setError(err instanceof CameraError ? err.message : "The camera couldn't be started.");
+            },
+        );
+        return () => {
+            isCurrent = false;
+            if (opened) stopCamera(opened);
+        };
+    }, [deviceId]);
+
+    useEffect(() => {
+        if (videoRef.current) {
+            videoRef.current.srcObject = stream;
+        }
+    }, [stream, snapshot]);
+
+    useEffect(() => {
+        if (countdown === null) return;
+        if (countdown > 0) {
+            const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+            return () => clearTimeout(timer);
+        }
+        setCountdown(null);
+        const video = videoRef.current;
+        if (!video || !stream || video.videoWidth === 0) return;
+        const canvas = captureFrame(video, PORTRAIT_ASPECT, isFrontFacing(stream));
+        setIsFlashing(true);
+        setSnapshot({ canvas, url: canvas.toDataURL('image/jpeg', 0.9) });
+    }, [countdown, stream]);
+
+    const handleSwitchCamera = () => {
+        const activeId = stream?.getVideoTracks()[0]?.getSettings().deviceId ?? deviceId;
+        const index = cameras.findIndex(camera => camera.deviceId === activeId);
+        setSnapshot(null);
+        setDeviceId(cameras[(index + 1) % cameras.length].deviceId);
+    };
+
+    const mirror = stream ? isFrontFacing(stream) : true;
+
+    return (
+        <div className="flex flex-col items-center gap-6">
+            <div className="bg-neutral-100 p-4 pb-16 flex flex-col aspect-[3/4] w-80 max-w-full rounded-md shadow-lg relative">
+                <div className="w-full flex-grow bg-neutral-900 relative overflow-hidden">
+                    {error ? (
+                        <p className="absolute inset-0 flex items-center justify-center p-4 text-center font-special-elite text-neutral-300">{error}</p>
+                    ) : snapshot ? (
+                        <img src={snapshot.url} alt="Your snapshot" className="w-full h-full object-cover" />
+                    ) : (
+                        <video
+                            ref={videoRef}
+                            autoPlay
+                            playsInline
+                            muted
+                            className="w-full h-full object-cover"
+                            style={{ transform: mirror ? 'scaleX(-1)' : undefined }}
+                        />
+                    )}
+                    <AnimatePresence>
+                        {countdown !== null && countdown > 0 && (
+                            <motion.span
+                                key={countdown}
+                                initial={{ opacity: 0, scale: 1.6 }}
+                                animate={{ opacity: 1, scale: 1 }}
+                                exit={{ opacity: 0 }}
+                                className="absolute inset-0 flex items-center justify-center font-permanent-marker text-8xl text-white drop-shadow-lg"
+                            >
+                                {countdown}
+                            </motion.span>
+                        )}
+                    </AnimatePresence>
+                    {isFlashing && (
+                        <motion.div
+                            className="absolute inset-0 bg-white"
+                            initial={{ opacity: 1 }}
+                            animate={{ opacity: 0 }}
+                            transition={{ duration: 0.6 }}
+                            onAnimationComplete={() => setIsFlashing(false)}
+                        />
+                    )}
+                </div>
+                <p className="absolute bottom-4 left-4 right-4 text-center font-permanent-marker text-xl text-neutral-800 truncate">
+                    {snapshot ? 'Your Mugshot' : 'Say Cheese'}
+                </p>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-center gap-3">
+                {snapshot ? (
+                    <>
+                        <button onClick={() => setSnapshot(null)} className={`${buttonClasses} text-white border-2 border-white/80 hover:bg-white hover:text-black`}>
+                            Retake
+                        </button>
+                        <button onClick={() => onCapture(snapshot.canvas)} className={`${buttonClasses} text-black bg-yellow-400 hover:bg-yellow-300`}>
+                            Use This Shot
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <button onClick={onCancel} className={`${buttonClasses} text-white border-2 border-white/80 hover:bg-white hover:text-black`}>
+                            Back
+                        </button>
+                        {cameras.length > 1 && (
+                            <button
+                                onClick={handleSwitchCamera}
+                                disabled={countdown !== null}
+                                className={`${buttonClasses} text-white border-2 border-white/80 hover:bg-white hover:text-black disabled:opacity-50`}
+                            >
+                                Switch Camera
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setCountdown(COUNTDOWN_SECONDS)}
+                            disabled={!stream || countdown !== null}
+                            className={`${buttonClasses} text-black bg-yellow-400 hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed`}
+                        >
+                            Snap
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CameraCapture;
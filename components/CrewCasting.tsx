@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { assignRole, castCrew, getCastSlots } from '../lib/crew';
+import type { CrewCast } from '../lib/crew';
+import type { Archetype } from '../lib/archetypeRegistry';
+import type { Person } from '../lib/people';
+import { MIN_CREW_SIZE } from '../services/prompts';
+
+interface CrewCastingProps {
+    /** The crew shots on the board. */
+    archetypes: Archetype[];
+    people: Person[];
+    cast: CrewCast;
+    onChangeCast: (cast: CrewCast) => void;
+    /** Offered while the batch has room for more people. */
+    onAddPhotos?: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    isPreparingPhoto: boolean;
+    uploadError: string | null;
+    onClose: () => void;
+}
+
+const selectClasses = "bg-black/50 border border-white/30 rounded-sm px-2 py-1 text-sm focus:outline-none focus:border-yellow-400";
+
+/** Assigns the people in the batch to the roles in each crew shot. */
+const CrewCasting: React.FC<CrewCastingProps> = ({ archetypes, people, cast, onChangeCast, onAddPhotos, isPreparingPhoto, uploadError, onClose }) => (
+    <div
+        className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+        onClick={onClose}
+    >
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="w-full max-w-xl max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/20 rounded-md p-6 text-neutral-200 shadow-xl"
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="crew-casting-title"
+        >
+            <div className="flex items-center justify-between mb-2">
+                <h2 id="crew-casting-title" className="font-permanent-marker text-2xl text-yellow-400">Cast the Crew</h2>
+                <button onClick={onClose} className="text-neutral-400 hover:text-white text-2xl leading-none" aria-label="Close crew casting">&times;</button>
+            </div>
+            <p className="text-sm text-neutral-500 mb-4">
+                Crew shots put everyone in one scene. Pick who plays each part; parts left empty are written out. Each shot needs at least {MIN_CREW_SIZE} people.
+            </p>
+
+            <div className="flex flex-col gap-6">
+                {archetypes.map(archetype => {
+                    const slots = getCastSlots(archetype, people, cast);
+                    const isReady = castCrew(archetype, people, cast) !== null;
+                    return (
+                        <section key={archetype.id}>
+                            <div className="flex items-baseline justify-between gap-2 mb-2">
+                                <h3 className="font-special-elite text-lg text-neutral-200">{archetype.name}</h3>
+                                <span className={cn("text-xs", isReady ? "text-neutral-500" : "text-red-400")}>
+                                    {isReady ? `${slots.filter(Boolean).length} in the shot` : `Needs ${MIN_CREW_SIZE} or more`}
+                                </span>
+                            </div>
+                            <ul className="flex flex-col gap-2">
+                                {(archetype.roles ?? []).map((role, index) => {
+                                    const person = people.find(p => p.id === slots[index]);
+                                    return (
+                                        <li key={index} className="flex items-center gap-3">
+                                            {person ? (
+                                                <img src={person.image} alt="" className="w-10 h-10 rounded-full object-cover shrink-0" />
+                                            ) : (
+                                                <span className="w-10 h-10 rounded-full border border-dashed border-white/30 shrink-0" />
+                                            )}
+                                            <span className="flex-1 text-sm text-neutral-400">{role}</span>
+                                            <select
+                                                value={slots[index] ?? ''}
+                                                onChange={(e) => onChangeCast(assignRole(cast, archetype, people, index, e.target.value || null))}
+                                                className={selectClasses}
+                                                aria-label={`Who plays ${role}`}
+                                            >
+                                                <option value="">Nobody</option>
+                                                {people.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                            </select>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </section>
+                    );
+                })}
+            </div>
+
+            {isPreparingPhoto && <p className="mt-4 text-sm text-neutral-400">Reading your photos...</p>}
+            {uploadError && <p className="mt-4 text-sm text-red-400">{uploadError}</p>}
+
+            <div className="flex flex-wrap gap-3 mt-6">
+                <button
+                    onClick={onClose}
+                    className="font-permanent-marker text-black bg-yellow-400 py-2 px-4 rounded-sm hover:bg-yellow-300"
+                >
+                    Done
+                </button>
+                {onAddPhotos && (
+                    <>
+                        <label
+                            htmlFor="crew-add-people"
+                            className="cursor-pointer font-permanent-marker text-white border border-white/50 py-2 px-4 rounded-sm hover:bg-white hover:text-black"
+                        >
+                            Add People
+                        </label>
+                        <input id="crew-add-people" type="file" className="hidden" accept="image/*" multiple onChange={onAddPhotos} />
+                    </>
+                )}
+            </div>
+        </motion.div>
+    </div>
+);
+
+export default CrewCasting;
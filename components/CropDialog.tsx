@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { PORTRAIT_ASPECT, fitCrop, formatBytes, getOutputSize } from '../lib/photoUpload';
+import type { CropRect, PreparedPhoto } from '../lib/photoUpload';
+
+interface CropDialogProps {
+    photo: PreparedPhoto;
+    maxEdge: number;
+    /** Called with the region to keep, or null for the whole photo. */
+    onConfirm: (crop: CropRect | null) => void;
+    onCancel: () => void;
+}
+
+/** Width divided by height; null keeps the whole photo. */
+const ASPECTS: { label: string; value: number | null }[] = [
+    { label: 'Portrait', value: PORTRAIT_ASPECT },
+    { label: 'Square', value: 1 },
+    { label: 'Whole photo', value: null },
+];
+
+const MIN_CROP = 64;
+
+type DragMode = 'move' | 'resize';
+
+interface DragStart {
+    mode: DragMode;
+    pointerX: number;
+    pointerY: number;
+    crop: CropRect;
+}
+
+const CropDialog: React.FC<CropDialogProps> = ({ photo, maxEdge, onConfirm, onCancel }) => {
+    const { width, height } = photo.canvas;
+    const [aspect, setAspect] = useState<number | null>(ASPECTS[0].value);
+    const [crop, setCrop] = useState<CropRect>(() => fitCrop(width, height, ASPECTS[0].value!, photo.focus));
+    const imageRef = useRef<HTMLImageElement>(null);
+    const dragRef = useRef<DragStart | null>(null);
+
+    const output = getOutputSize(photo, aspect === null ? null : crop, maxEdge);
+
+    const handleAspect = (value: number | null) => {
+        setAspect(value);
+        if (value !== null) {
+            setCrop(fitCrop(width, height, value, photo.focus));
+        }
+    };
+
+    const handlePointerDown = (mode: DragMode) => (e: React.PointerEvent) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { mode, pointerX: e.clientX, pointerY: e.clientY, crop };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const image = imageRef.current;
+        if (!drag || !image || aspect === null) return;
+
+        // Pointer movement is in screen pixels; the crop is in photo pixels.
+        const scale = width / image.getBoundingClientRect().width;
+        const dx = (e.clientX - drag.pointerX) * scale;
+        const dy = (e.clientY - drag.pointerY) * scale;
+        const start = drag.crop;
+
+        if (drag.mode === 'move') {
+            setCrop({
+                ...start,
+                x: Math.round(Math.min(Math.max(start.x + dx, 0), width - start.width)),
+                y: Math.round(Math.min(Math.max(start.y + dy, 0), height - start.height)),
+            });
+            return;
+        }
+        // Resize from the bottom-right corner, keeping the aspect ratio and staying inside the photo.
+        const maxWidth = Math.min(width - start.x, (height - start.y) * aspect);
+        const cropWidth = Math.min(Math.max(start.width + Math.max(dx, dy * aspect), MIN_CROP), maxWidth);
+        setCrop({ ...start, width: Math.round(cropWidth), height: Math.round(cropWidth / aspect) });
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+    return (
+        <div
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            onClick={onCancel}
+        >
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-xl max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/20 rounded-md p-6 text-neutral-200 shadow-xl"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="crop-title"
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h2 id="crop-title" className="font-permanent-marker text-2xl text-yellow-400">Frame Your Mugshot</h2>
+                    <button onClick={onCancel} className="text-neutral-400 hover:text-white text-2xl leading-none" aria-label="Cancel upload">&times;</button>
+                </div>
+
+                <div className="flex gap-2 mb-4">
+                    {ASPECTS.map(option => (
+                        <button
+                            key={option.label}
+                            onClick={() => handleAspect(option.value)}
+                            className={cn(
+                                "text-sm py-1 px-3 rounded-sm border",
+                                aspect === option.value ? "bg-yellow-400 text-black border-yellow-400" : "border-white/30 hover:border-white",
+                            )}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+
+                <div
+                    className="relative mx-auto w-fit select-none touch-none"
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                >
+                    <img ref={imageRef} src={photo.previewUrl} alt="Your photo" className="block max-h-[55vh] max-w-full" draggable={false} />
+                    {aspect !== null && (
+                        <div
+                            className="absolute border-2 border-yellow-400 cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                            style={{
+                                left: percent(crop.x, width),
+                                top: percent(crop.y, height),
+                                width: percent(crop.width, width),
+                                height: percent(crop.height, height),
+                            }}
+                            onPointerDown={handlePointerDown('move')}
+                        >
+                            <div
+                                className="absolute -right-2 -bottom-2 w-4 h-4 bg-yellow-400 rounded-sm cursor-nwse-resize"
+                                onPointerDown={handlePointerDown('resize')}
+                                aria-label="Resize crop"
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <p className="text-xs text-neutral-500 mt-3">
+                    {photo.focus ? 'Centred on the face we found. ' : ''}Drag the frame to move it, or its corner to resize.
+                    {' '}Original: {formatBytes(photo.originalBytes)} ({photo.originalType}). Will be sent at {output.width}&times;{output.height}.
+                </p>
+
+                <div className="flex flex-wrap gap-3 mt-4">
+                    <button
+                        onClick={() => onConfirm(aspect === null ? null : crop)}
+                        className="font-permanent-marker text-black bg-yellow-400 py-2 px-4 rounded-sm hover:bg-yellow-300"
+                    >
+                        Use This Shot
+                    </button>
+                    <button
+                        onClick={onCancel}
+                        className="font-permanent-marker text-white border border-white/50 py-2 px-4 rounded-sm hover:bg-white hover:text-black"
+                    >
+                        Pick Another
+                    </button>
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default CropDialog;
@@ -4,22 +4,23 @@
 */
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useThemePacks } from '../themes';
 
-const REMIX_IDEAS = [
-    "to see yourself as a 90s rave DJ.",
-    "to create a cyberpunk version of yourself.",
-    "to design a synthwave album cover.",
-    "to place yourself in an 80s action movie poster.",
-    "to generate a custom GTA-style character.",
-    "to turn your pet into a mecha-animal.",
-];
+interface FooterProps {
+    currentPackId: string;
+    /** Left out while a board is developing or shown, as switching would clear it. */
+    onSwitchPack?: (packId: string) => void;
+}
 
-const Footer = () => {
+const Footer = ({ currentPackId, onSwitchPack }: FooterProps) => {
     const [index, setIndex] = useState(0);
+    // Every other pack is one click away.
+    const remixPacks = useThemePacks().filter(pack => pack.id !== currentPackId);
+    const remixPack = remixPacks[index % remixPacks.length];
 
     useEffect(() => {
         const intervalId = setInterval(() => {
-            setIndex(prevIndex => (prevIndex + 1) % REMIX_IDEAS.length);
+            setIndex(prevIndex => prevIndex + 1);
         }, 3500); // Change text every 3.5 seconds
 
         return () => clearInterval(intervalId);
@@ -47,23 +48,27 @@ const Footer = () => {
 
                 {/* Right Side */}
                 <div className="flex-grow flex justify-end items-center gap-4 sm:gap-6">
-                    <div className="hidden lg:flex items-center gap-2 text-neutral-400 text-right min-w-0">
-                        <span className="flex-shrink-0">Remix this app...</span>
-                        <div className="relative w-64 h-5">
-                            <AnimatePresence mode="wait">
-                                <motion.span
-                                    key={index}
-                                    initial={{ opacity: 0, y: 10 }}
-                                    animate={{ opacity: 1, y: 0 }}
-                                    exit={{ opacity: 0, y: -10 }}
-                                    transition={{ duration: 0.4, ease: "easeInOut" }}
-                                    className="absolute inset-0 font-medium text-neutral-200 whitespace-nowrap text-left"
-                                >
-                                    {REMIX_IDEAS[index]}
-                                </motion.span>
-                            </AnimatePresence>
+                    {onSwitchPack && remixPack && (
+                        <div className="hidden lg:flex items-center gap-2 text-neutral-400 text-right min-w-0">
+                            <span className="flex-shrink-0">Switch scenes...</span>
+                            <div className="relative w-64 h-5">
+                                <AnimatePresence mode="wait">
+                                    <motion.button
+                                        key={remixPack.id}
+                                        onClick={() => onSwitchPack(remixPack.id)}
+                                        initial={{ opacity: 0, y: 10 }}
+                                        animate={{ opacity: 1, y: 0 }}
+                                        exit={{ opacity: 0, y: -10 }}
+                                        transition={{ duration: 0.4, ease: "easeInOut" }}
+                                        className="absolute inset-0 font-medium text-neutral-200 hover:text-yellow-400 whitespace-nowrap text-left"
+                                        title={`Switch to ${remixPack.name}`}
+                                    >
+                                        {remixPack.copy.remixIdea}
+                                    </motion.button>
+                                </AnimatePresence>
+                            </div>
                         </div>
-                    </div>
+                    )}
 
                     <div className="flex items-center gap-4 sm:gap-6">
                         <a
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { createArchetype, getArchetypePrompt, useArchetypes, validateArchetype } from '../lib/archetypeRegistry';
+import type { ArchetypeDraft } from '../lib/archetypeRegistry';
+import { LOOK_PARTS, buildLook, getLookOptions, hasPicks } from '../lib/lookBuilder';
+import type { LookPicks } from '../lib/lookBuilder';
+import { useThemePack } from '../themes';
+
+interface LookBuilderProps {
+    /** Puts the look on the board for this session only; omitted when there is no photo to develop it on. */
+    onAddToBoard?: (look: ArchetypeDraft) => void;
+    onClose: () => void;
+}
+
+const selectClasses = "bg-black/50 border border-white/30 rounded-sm px-3 py-2 focus:outline-none focus:border-yellow-400";
+
+const LookBuilder: React.FC<LookBuilderProps> = ({ onAddToBoard, onClose }) => {
+    const archetypes = useArchetypes();
+    const themePack = useThemePack();
+    const [picks, setPicks] = useState<LookPicks>({});
+    const [name, setName] = useState('Mix-Max');
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const look = useMemo(
+        () => buildLook(archetypes, picks, name, themePack.prompt.lookPersona),
+        [archetypes, picks, name, themePack],
+    );
+    const prompt = useMemo(() => hasPicks(picks) ? getArchetypePrompt(look) : '', [look, picks]);
+
+    const handlePick = (key: keyof LookPicks, archetypeId: string) => {
+        setPicks({ ...picks, [key]: archetypeId || undefined });
+        setMessage(null);
+    };
+
+    const handleShuffle = () => {
+        const shuffled: LookPicks = {};
+        for (const part of LOOK_PARTS) {
+            const options = getLookOptions(archetypes, part);
+            shuffled[part.key] = options[Math.floor(Math.random() * options.length)]?.id;
+        }
+        setPicks(shuffled);
+        setMessage(null);
+    };
+
+    const handleAddToBoard = () => {
+        if (!look.name) {
+            setMessage({ text: 'Give the look a name.', isError: true });
+            return;
+        }
+        onAddToBoard?.(look);
+        onClose();
+    };
+
+    const handleSave = () => {
+        const problem = validateArchetype(look);
+        if (problem) {
+            setMessage({ text: problem, isError: true });
+            return;
+        }
+        createArchetype(look);
+        setMessage({ text: `"${look.name}" is now one of your archetypes.`, isError: false });
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/20 rounded-md p-6 text-neutral-200 shadow-xl"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="look-builder-title"
+            >
+                <div className="flex items-center justify-between mb-6">
+                    <h2 id="look-builder-title" className="font-permanent-marker text-2xl text-yellow-400">Mix &amp; Match</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white text-2xl leading-none" aria-label="Close look builder">&times;</button>
+                </div>
+
+                <div className="flex flex-col gap-3">
+                    <label htmlFor="look-name" className="font-special-elite text-neutral-300">Name</label>
+                    <input
+                        id="look-name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className={selectClasses}
+                    />
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-2">
+                        {LOOK_PARTS.map(part => (
+                            <div key={part.key} className="flex flex-col gap-1">
+                                <label htmlFor={`look-${part.key}`} className="font-special-elite text-sm text-neutral-300">{part.label}</label>
+                                <select
+                                    id={`look-${part.key}`}
+                                    value={picks[part.key] ?? ''}
+                                    onChange={(e) => handlePick(part.key, e.target.value)}
+                                    className={selectClasses}
+                                >
+                                    <option value="">None</option>
+                                    {getLookOptions(archetypes, part).map(archetype => (
+                                        <option key={archetype.id} value={archetype.id}>{archetype.name}'s</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={handleShuffle} className="self-start text-xs text-neutral-500 hover:text-neutral-300 underline">
+                        Surprise me
+                    </button>
+
+                    <span className="font-special-elite text-neutral-300 mt-2">Composed prompt</span>
+                    <p className="text-sm text-neutral-400 bg-black/30 border border-white/10 rounded-sm px-3 py-2">
+                        {prompt || 'Pick at least one part to see the prompt.'}
+                    </p>
+
+                    {message && <p className={cn("text-sm", message.isError ? "text-red-400" : "text-green-400")}>{message.text}</p>}
+
+                    <div className="flex flex-wrap gap-3 mt-2">
+                        {onAddToBoard && (
+                            <button
+                                onClick={handleAddToBoard}
+                                disabled={!hasPicks(picks)}
+                                className="font-permanent-marker text-black bg-yellow-400 py-2 px-4 rounded-sm hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Add to the Board
+                            </button>
+                        )}
+                        <button
+                            onClick={handleSave}
+                            disabled={!hasPicks(picks)}
+                            className="font-permanent-marker text-white border border-white/50 py-2 px-4 rounded-sm hover:bg-white hover:text-black disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Save as Archetype
+                        </button>
+                    </div>
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default LookBuilder;
@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { createLookbookPages, pickLookbookEntries } from '../lib/albumUtils';
+import type { FailedLookMode, LookbookCandidate } from '../lib/albumUtils';
+import { LOOKBOOK_FORMATS, LOOKBOOK_TEMPLATES, getLookbookFormat, getLookbookTemplate } from '../lib/lookbookTemplates';
+import type { LookbookFormatId, LookbookTemplateId } from '../lib/lookbookTemplates';
+import type { ThemePack } from '../themes';
+
+/** The layout chosen in the preview. */
+export interface LookbookLayout {
+    template: LookbookTemplateId;
+    format: LookbookFormatId;
+}
+
+/** Everything chosen in the preview: the layout and which looks go in. */
+export interface LookbookOptions extends LookbookLayout {
+    /** The names of the looks to put in, in board order. */
+    include: string[];
+    failed: FailedLookMode;
+}
+
+interface LookbookPreviewProps {
+    /** Every card on the board being previewed, in board order. */
+    candidates: LookbookCandidate[];
+    pack: ThemePack;
+    subtitle?: string;
+    initialLayout: LookbookLayout;
+    /** What the download button says, e.g. when it saves the whole crew. */
+    actionLabel: string;
+    /** Anything to know before saving, such as cards left out. */
+    notes?: string[];
+    isDownloading: boolean;
+    /** Called with the choices and the pages as previewed. */
+    onDownload: (options: LookbookOptions, pages: string[]) => void;
+    onClose: () => void;
+}
+
+const optionClasses = (active: boolean) => cn(
+    "text-left text-sm py-2 px-3 rounded-sm border",
+    active ? "border-yellow-400 text-yellow-400" : "border-white/20 text-neutral-400 hover:text-white hover:border-white/40",
+);
+
+const STATUS_NOTES: Record<LookbookCandidate['status'], string | null> = {
+    'done': null,
+    'failed': "didn't develop",
+    'developing': 'developing',
+};
+
+/** Shows the lookbook pages before they are saved and lets the layout and the looks be changed. */
+const LookbookPreview: React.FC<LookbookPreviewProps> = ({ candidates, pack, subtitle, initialLayout, actionLabel, notes = [], isDownloading, onDownload, onClose }) => {
+    // Stored ids can be stale, e.g. a template since removed; fall back to the defaults.
+    const [layout, setLayout] = useState<LookbookLayout>(() => ({
+        template: getLookbookTemplate(initialLayout.template).id,
+        format: getLookbookFormat(initialLayout.format).id,
+    }));
+    // Everything that can go in starts ticked; looks still developing can't.
+    const [include, setInclude] = useState(() => candidates.filter(card => card.status !== 'developing').map(card => card.name));
+    const [failed, setFailed] = useState<FailedLookMode>('placeholder');
+    const [pages, setPages] = useState<string[] | null>(null);
+    const [pageIndex, setPageIndex] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    const entries = pickLookbookEntries(candidates, include, failed);
+    const hasFailed = candidates.some(card => card.status === 'failed' && include.includes(card.name));
+
+    // Render the pages again whenever a choice changes; a slower earlier render is discarded.
+    useEffect(() => {
+        let isCurrent = true;
+        setPages(null);
+        setError(null);
+        const picked = pickLookbookEntries(candidates, include, failed);
+        if (picked.length === 0) return;
+        createLookbookPages(picked, pack, subtitle, layout)
+            .then(urls => {
+                if (!isCurrent) return;
+                setPages(urls);
+                setPageIndex(index => Math.min(index, urls.length - 1));
+            })
+            .catch(err => {
+                console.error("Failed to render the lookbook preview:", err);
+                if (isCurrent) setError("The preview couldn't be drawn.");
+            });
+        return () => { isCurrent = false; };
+    }, [candidates, pack, subtitle, layout, include, failed]);
+
+    const toggle = (name: string) => {
+        setInclude(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/20 rounded-md p-6 text-neutral-200 shadow-xl"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="lookbook-preview-title"
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h2 id="lookbook-preview-title" className="font-permanent-marker text-2xl text-yellow-400">Lookbook</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white text-2xl leading-none" aria-label="Close lookbook preview">&times;</button>
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-6">
+                    <div className="flex-1 flex flex-col items-center gap-2">
+                        <div className="w-full flex items-center justify-center bg-black/40 rounded-sm min-h-[20rem] p-2">
+                            {entries.length === 0 ? (
+                                <p className="font-special-elite text-sm text-neutral-400">Pick at least one look.</p>
+                            ) : pages ? (
+                                <img src={pages[pageIndex]} alt={`Lookbook page ${pageIndex + 1}`} className="max-h-[60vh] max-w-full object-contain shadow-lg" />
+                            ) : error ? (
+                                <p className="text-sm text-red-400">{error}</p>
+                            ) : (
+                                <p className="font-special-elite text-sm text-neutral-400">Laying out the pages...</p>
+                            )}
+                        </div>
+                        {pages && pages.length > 1 && (
+                            <div className="flex items-center gap-3 text-sm">
+                                <button onClick={() => setPageIndex(i => i - 1)} disabled={pageIndex === 0} className="text-neutral-400 hover:text-white disabled:opacity-30" aria-label="Previous page">&larr;</button>
+                                <span className="font-special-elite text-neutral-400">Page {pageIndex + 1} of {pages.length}</span>
+                                <button onClick={() => setPageIndex(i => i + 1)} disabled={pageIndex === pages.length - 1} className="text-neutral-400 hover:text-white disabled:opacity-30" aria-label="Next page">&rarr;</button>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="sm:w-60 flex flex-col gap-4">
+                        <fieldset>
+                            <legend className="text-sm text-neutral-500 mb-2">Template</legend>
+                            <div className="flex flex-col gap-2">
+                                {LOOKBOOK_TEMPLATES.map(template => (
+                                    <button
+                                        key={template.id}
+                                        onClick={() => setLayout(prev => ({ ...prev, template: template.id }))}
+                                        className={optionClasses(layout.template === template.id)}
+                                        aria-pressed={layout.template === template.id}
+                                    >
+                                        <span className="block font-special-elite">{template.label}</span>
+                                        <span className="block text-xs text-neutral-500">{template.description}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        </fieldset>
+                        <fieldset>
+                            <legend className="text-sm text-neutral-500 mb-2">Format</legend>
+                            <div className="flex flex-wrap gap-2">
+                                {LOOKBOOK_FORMATS.map(format => (
+                                    <button
+                                        key={format.id}
+                                        onClick={() => setLayout(prev => ({ ...prev, format: format.id }))}
+                                        className={optionClasses(layout.format === format.id)}
+                                        aria-pressed={layout.format === format.id}
+                                    >
+                                        {format.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </fieldset>
+                        <fieldset>
+                            <legend className="text-sm text-neutral-500 mb-2">Looks</legend>
+                            <ul className="flex flex-col gap-1 text-sm">
+                                {candidates.map(card => (
+                                    <li key={card.name}>
+                                        <label className={cn("flex items-center gap-2", card.status === 'developing' ? "text-neutral-600" : "text-neutral-300 cursor-pointer")}>
+                                            <input
+                                                type="checkbox"
+                                                checked={include.includes(card.name)}
+                                                disabled={card.status === 'developing'}
+                                                onChange={() => toggle(card.name)}
+                                                className="accent-yellow-400"
+                                            />
+                                            <span className="flex-1 truncate">{card.name}</span>
+                                            {STATUS_NOTES[card.status] && <span className="text-xs text-neutral-500">{STATUS_NOTES[card.status]}</span>}
+                                        </label>
+                                    </li>
+                                ))}
+                            </ul>
+                            {hasFailed && (
+                                <label className="flex items-center gap-2 mt-2 text-sm text-neutral-400">
+                                    Looks that didn't develop
+                                    <select
+                                        value={failed}
+                                        onChange={(e) => setFailed(e.target.value as FailedLookMode)}
+                                        className="bg-black/50 border border-white/30 rounded-sm px-2 py-1 text-sm focus:outline-none focus:border-yellow-400"
+                                    >
+                                        <option value="placeholder">Show a placeholder</option>
+                                        <option value="skip">Leave out</option>
+                                    </select>
+                                </label>
+                            )}
+                        </fieldset>
+                        {pages && pages.length > 1 && (
+                            <p className="text-xs text-neutral-500">
+                                Each page saves as its own image, so your browser may ask to allow several downloads.
+                            </p>
+                        )}
+                        {notes.map(note => <p key={note} className="text-xs text-yellow-400/80">{note}</p>)}
+                        <button
+                            onClick={() => pages && onDownload({ ...layout, include, failed }, pages)}
+                            disabled={!pages || isDownloading}
+                            className="font-permanent-marker text-black bg-yellow-400 py-2 px-4 rounded-sm hover:bg-yellow-300 disabled:opacity-40"
+                        >
+                            {isDownloading ? 'Saving...' : actionLabel}
+                        </button>
+                    </div>
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default LookbookPreview;
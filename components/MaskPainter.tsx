@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { createMaskImage, hasPaint } from '../lib/mask';
+import { MAX_INSTRUCTION_LENGTH } from '../services/prompts';
+
+type Tool = 'brush' | 'eraser';
+
+interface MaskPainterProps {
+    caption: string;
+    /** A data URL of the take being repainted. */
+    imageUrl: string;
+    /** Called with a PNG data URL of the mask and what to put there. */
+    onRepaint: (maskUrl: string, instruction: string) => void;
+    onClose: () => void;
+}
+
+// Brush sizes as a share of the image width, so they feel the same at any resolution.
+const MIN_BRUSH = 0.01;
+const MAX_BRUSH = 0.15;
+const DEFAULT_BRUSH = 0.05;
+
+const toolClasses = (active: boolean) => cn(
+    "font-special-elite text-sm py-1 px-3 rounded-sm border",
+    active ? "border-yellow-400 text-yellow-400" : "border-white/30 text-neutral-400 hover:text-white",
+);
+
+/** Paints over the part of a finished card that should be regenerated. */
+const MaskPainter: React.FC<MaskPainterProps> = ({ caption, imageUrl, onRepaint, onClose }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPoint = useRef<{ x: number; y: number } | null>(null);
+    const [tool, setTool] = useState<Tool>('brush');
+    const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH);
+    const [hasMask, setHasMask] = useState(false);
+    const [instruction, setInstruction] = useState('');
+    const trimmed = instruction.trim();
+
+    // Paint at the image's own resolution; the canvas is scaled to fit on screen.
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+        setHasMask(false);
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+        };
+    };
+
+    const paintTo = (canvas: HTMLCanvasElement, point: { x: number; y: number }) => {
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const from = lastPoint.current ?? point;
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = '#facc15';
+        ctx.lineWidth = brushSize * canvas.width;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+        lastPoint.current = point;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPoint.current = null;
+        paintTo(e.currentTarget, toCanvasPoint(e));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!lastPoint.current) return;
+        paintTo(e.currentTarget, toCanvasPoint(e));
+    };
+
+    // Checked after every stroke, so erasing everything counts as no mask.
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!lastPoint.current) return;
+        lastPoint.current = null;
+        setHasMask(hasPaint(e.currentTarget));
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const canvas = canvasRef.current;
+        if (!canvas || !trimmed) return;
+        if (!hasPaint(canvas)) {
+            setHasMask(false);
+            return;
+        }
+        onRepaint(createMaskImage(canvas), trimmed);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/20 rounded-md p-6 text-neutral-200 shadow-xl"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="mask-painter-title"
+            >
+                <div className="flex items-center justify-between mb-2">
+                    <h2 id="mask-painter-title" className="font-permanent-marker text-2xl text-yellow-400">Repaint {caption}</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white text-2xl leading-none" aria-label="Close repaint">&times;</button>
+                </div>
+                <p className="text-sm text-neutral-500 mb-4">
+                    Paint over the part to change. Only that area is regenerated; every other pixel stays exactly as it is.
+                </p>
+
+                <div className="relative w-full mb-3">
+                    <img src={imageUrl} alt={caption} onLoad={handleImageLoad} className="block w-full rounded-sm select-none" draggable={false} />
+                    <canvas
+                        ref={canvasRef}
+                        className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                        aria-label="Mask"
+                    />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3 mb-4">
+                    <button type="button" onClick={() => setTool('brush')} className={toolClasses(tool === 'brush')} aria-pressed={tool === 'brush'}>Brush</button>
+                    <button type="button" onClick={() => setTool('eraser')} className={toolClasses(tool === 'eraser')} aria-pressed={tool === 'eraser'}>Eraser</button>
+                    <label className="flex items-center gap-2 text-sm text-neutral-400">
+                        Size
+                        <input
+                            type="range"
+                            min={MIN_BRUSH}
+                            max={MAX_BRUSH}
+                            step={0.01}
+                            value={brushSize}
+                            onChange={(e) => setBrushSize(Number(e.target.value))}
+                            className="accent-yellow-400"
+                        />
+                    </label>
+                    <button type="button" onClick={handleClear} className="text-sm text-neutral-500 hover:text-neutral-300 underline">Clear</button>
+                </div>
+
+                <form onSubmit={handleSubmit}>
+                    <label htmlFor="repaint-instruction" className="block text-sm text-neutral-500 mb-1">
+                        What goes in the painted area?
+                    </label>
+                    <textarea
+                        id="repaint-instruction"
+                        value={instruction}
+                        onChange={(e) => setInstruction(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) handleSubmit(e);
+                        }}
+                        maxLength={MAX_INSTRUCTION_LENGTH}
+                        rows={2}
+                        placeholder="replace the sunglasses with gold aviators"
+                        className="w-full bg-black/50 border border-white/30 rounded-sm px-3 py-2 text-sm focus:outline-none focus:border-yellow-400"
+                    />
+                    <div className="flex items-center justify-between mt-4">
+                        <span className="text-xs text-neutral-500">{hasMask ? `${instruction.length}/${MAX_INSTRUCTION_LENGTH}` : 'Paint an area first'}</span>
+                        <button
+                            type="submit"
+                            disabled={!hasMask || !trimmed}
+                            className="font-permanent-marker text-black bg-yellow-400 py-2 px-4 rounded-sm hover:bg-yellow-300 disabled:opacity-40"
+                        >
+                            Repaint
+                        </button>
+                    </div>
+                </form>
+            </motion.div>
+        </div>
+    );
+};
+
+export default MaskPainter;
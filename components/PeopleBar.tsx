@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { cn } from '../lib/utils';
+import type { Person } from '../lib/people';
+
+interface PeopleBarProps {
+    people: Person[];
+    activeId: string | null;
+    onSelect: (personId: string) => void;
+    /** Offered while the batch can still be edited. */
+    onRename?: (personId: string, name: string) => void;
+    onRemove?: (personId: string) => void;
+    /** Finished and total cards per person, shown while a batch develops. */
+    progress?: Record<string, { done: number; total: number }>;
+}
+
+/** Switches the board between the people in a batch. */
+const PeopleBar: React.FC<PeopleBarProps> = ({ people, activeId, onSelect, onRename, onRemove, progress }) => {
+    const active = people.find(person => person.id === activeId);
+    return (
+        <div className="flex flex-col items-center gap-3 mb-4">
+            <div className="flex flex-wrap justify-center gap-2" role="tablist" aria-label="People">
+                {people.map(person => {
+                    const personProgress = progress?.[person.id];
+                    return (
+                        <div key={person.id} className="relative">
+                            <button
+                                role="tab"
+                                aria-selected={person.id === activeId}
+                                onClick={() => onSelect(person.id)}
+                                className={cn(
+                                    "flex items-center gap-2 pl-1 pr-3 py-1 rounded-full border transition-colors",
+                                    person.id === activeId ? "border-yellow-400 bg-yellow-400/10 text-yellow-400" : "border-white/20 text-neutral-300 hover:border-white/60",
+                                )}
+                            >
+                                <img src={person.image} alt="" className="w-8 h-8 rounded-full object-cover" />
+                                <span className="font-special-elite text-sm max-w-[8rem] truncate">{person.name}</span>
+                                {personProgress && personProgress.total > 0 && (
+                                    <span className="text-xs text-neutral-500">{personProgress.done}/{personProgress.total}</span>
+                                )}
+                            </button>
+                            {onRemove && (
+                                <button
+                                    onClick={() => onRemove(person.id)}
+                                    className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-neutral-800 text-neutral-400 hover:text-white text-xs leading-none"
+                                    aria-label={`Remove ${person.name}`}
+                                >
+                                    &times;
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+            {onRename && active && (
+                <label className="flex items-center gap-2 font-special-elite text-sm text-neutral-400">
+                    Name
+                    <input
+                        value={active.name}
+                        maxLength={30}
+                        onChange={(e) => onRename(active.id, e.target.value)}
+                        className="bg-black/50 border border-white/30 rounded-sm px-2 py-1 text-neutral-200 focus:outline-none focus:border-yellow-400"
+                    />
+                </label>
+            )}
+        </div>
+    );
+};
+
+export default PeopleBar;
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+
+/** Where a dropped or pasted photo came from: a file, or an address to download it from. */
+export type PhotoSource = { file: File } | { url: string };
+
+interface PhotoDropZoneProps {
+    /** Called with every photo dropped or pasted at once. */
+    onPhotos: (sources: PhotoSource[]) => void;
+    /** Called with a message when something was dropped or pasted that isn't a photo. */
+    onReject: (message: string) => void;
+    children: React.ReactNode;
+}
+
+/**
+ * Finds photos in dropped or pasted data. Images dragged from another tab come
+ * as HTML with an <img>, links as a URI list, and copied addresses as plain text.
+ */
+function readPhotoSources(data: DataTransfer): PhotoSource[] {
+    // Files of other types are kept so the user hears why they were turned away.
+    if (data.files.length > 0) {
+        return Array.from(data.files).map(file => ({ file }));
+    }
+
+    const imageSrc = data.getData('text/html').match(/<img[^>]+src=["']([^"']+)["']/i)?.[1];
+    const uri = data.getData('text/uri-list').split(/\r?\n/).find(line => line && !line.startsWith('#'));
+    const url = (imageSrc ?? uri ?? data.getData('text/plain')).trim();
+    return /^(https?:|data:)/i.test(url) ? [{ url: url.replace(/&amp;/g, '&') }] : [];
+}
+
+/**
+ * Accepts photos dropped anywhere inside it, or pasted with Ctrl+V (Cmd+V)
+ * while it is on screen.
+ */
+const PhotoDropZone: React.FC<PhotoDropZoneProps> = ({ onPhotos, onReject, children }) => {
+    const [isDragging, setIsDragging] = useState(false);
+    // dragenter/dragleave fire for every child crossed, so count them.
+    const dragDepth = useRef(0);
+    const handlersRef = useRef({ onPhotos, onReject });
+    handlersRef.current = { onPhotos, onReject };
+
+    useEffect(() => {
+        const handlePaste = (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            // Leave pastes into text fields alone.
+            if (!e.clipboardData || target?.closest('input, textarea, [contenteditable="true"]')) return;
+            const sources = readPhotoSources(e.clipboardData);
+            if (sources.length > 0) {
+                e.preventDefault();
+                handlersRef.current.onPhotos(sources);
+            } else if (e.clipboardData.types.length > 0) {
+                handlersRef.current.onReject("There's no image on the clipboard. Copy a photo or an image address and paste again.");
+            }
+        };
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, []);
+
+    const handleDragEnter = (e: React.DragEvent) => {
+        e.preventDefault();
+        dragDepth.current += 1;
+        setIsDragging(true);
+    };
+
+    const handleDragOver = (e: React.DragEvent) => {
+        // Required for the drop event to fire.
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+    };
+
+    const handleDragLeave = () => {
+        dragDepth.current = Math.max(0, dragDepth.current - 1);
+        if (dragDepth.current === 0) setIsDragging(false);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        dragDepth.current = 0;
+        setIsDragging(false);
+        const sources = readPhotoSources(e.dataTransfer);
+        if (sources.length > 0) {
+            onPhotos(sources);
+        } else {
+            onReject("That wasn't a photo. Drop an image file or an image from another tab.");
+        }
+    };
+
+    return (
+        <div
+            className="relative w-full"
+            onDragEnter={handleDragEnter}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
+            {children}
+            <div
+                className={cn(
+                    "pointer-events-none absolute -inset-4 z-30 flex items-center justify-center rounded-md border-4 border-dashed border-yellow-400 bg-black/60 transition-opacity duration-200",
+                    isDragging ? "opacity-100" : "opacity-0",
+                )}
+                aria-hidden={!isDragging}
+            >
+                <p className="font-permanent-marker text-3xl text-yellow-400">Drop your mugshots</p>
+            </div>
+        </div>
+    );
+};
+
+export default PhotoDropZone;
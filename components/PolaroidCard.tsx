@@ -6,53 +6,257 @@ import React, { useState, useEffect, useRef } from 'react';
 import { DraggableCardContainer, DraggableCardBody } from './ui/draggable-card';
 import { cn } from '../lib/utils';
 import type { PanInfo } from 'framer-motion';
+import type { GenerationErrorInfo, GenerationErrorKind } from '../services/generationErrors';
 
 type ImageStatus = 'pending' | 'done' | 'error';
 
 interface PolaroidCardProps {
     imageUrl?: string;
+    /** Alternative takes to flip through; when given, these are shown instead of `imageUrl`. */
+    variants?: string[];
+    chosenVariant?: number;
+    /** Takes still developing for this card. */
+    developingCount?: number;
     caption: string;
     status: ImageStatus;
-    error?: string;
+    error?: GenerationErrorInfo;
     dragConstraintsRef?: React.RefObject<HTMLElement>;
     onShake?: (caption: string) => void;
     onDownload?: (caption: string) => void;
+    /** Opens the refine box for a finished card. */
+    onRefine?: (caption: string) => void;
+    /** Opens the mask painter for a finished card. */
+    onRepaint?: (caption: string) => void;
+    onCancel?: (caption: string) => void;
+    onChooseVariant?: (caption: string, index: number) => void;
+    /** Provided only while there is something to undo/redo. */
+    onUndo?: (caption: string) => void;
+    onRedo?: (caption: string) => void;
+    historyPosition?: number;
+    historyLength?: number;
+    /** The instruction the version on display was refined with, if any. */
+    historyNote?: string;
+    /** The last regeneration failed and the card is showing its previous version. */
+    keptPrevious?: boolean;
     isMobile?: boolean;
 }
 
-const LoadingSpinner = () => (
-    <div className="flex items-center justify-center h-full">
+const LoadingSpinner = ({ onCancel }: { onCancel?: () => void }) => (
+    <div className="flex flex-col items-center justify-center h-full gap-4">
         <svg className="animate-spin h-8 w-8 text-neutral-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
         </svg>
+        {onCancel && (
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onCancel();
+                }}
+                className="font-special-elite text-sm text-neutral-400 hover:text-white underline"
+            >
+                Cancel
+            </button>
+        )}
     </div>
 );
 
-const ErrorDisplay = () => (
-    <div className="flex items-center justify-center h-full">
-         <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-    </div>
-);
+const ERROR_COPY: Record<GenerationErrorKind, { title: string; suggestion: (error: GenerationErrorInfo) => string }> = {
+    'blocked': {
+        title: "The censors pulled this one.",
+        suggestion: () => "Try a different photo, or shake for another take.",
+    },
+    'quota': {
+        title: "Too many requests.",
+        suggestion: ({ retryAfterMs }) => `Wait ${Math.ceil((retryAfterMs ?? 60_000) / 1000)}s, then shake to retry.`,
+    },
+    'transient': {
+        title: "The darkroom is busy.",
+        suggestion: () => "Give it a moment, then shake to retry.",
+    },
+    'bad-input': {
+        title: "Couldn't use that photo.",
+        suggestion: () => "Try a different photo — a clear, front-facing JPEG or PNG works best.",
+    },
+    'no-image': {
+        title: "The model talked instead of shooting.",
+        suggestion: () => "Shake to retry, or try a different photo.",
+    },
+    'config': {
+        title: "No working API key.",
+        suggestion: () => "Check your API key in Settings.",
+    },
+    'cancelled': {
+        title: "Called off.",
+        suggestion: () => "Shake to shoot this one after all.",
+    },
+};
 
-const Placeholder = ({caption}: {caption: string}) => (
+const ErrorDisplay = ({ error, onRetry }: { error?: GenerationErrorInfo; onRetry?: () => void }) => {
+    const copy = error ? ERROR_COPY[error.kind] : undefined;
+    return (
+        <div className="flex flex-col items-center justify-center h-full gap-2 p-4 text-center">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            {copy && error && (
+                <>
+                    <p className="font-permanent-marker text-neutral-200">{copy.title}</p>
+                    <p className="font-special-elite text-sm text-neutral-400">{copy.suggestion(error)}</p>
+                    {error.detail && (
+                        <p className="text-xs text-neutral-500 italic line-clamp-3" title={error.detail}>"{error.detail}"</p>
+                    )}
+                </>
+            )}
+            {onRetry && error?.kind !== 'config' && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onRetry();
+                    }}
+                    className="mt-1 font-permanent-marker text-sm text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300"
+                >
+                    Try Again
+                </button>
+            )}
+        </div>
+    );
+};
+
+const Placeholder = ({caption, onDevelop}: {caption: string; onDevelop?: () => void}) => (
     <div className="flex flex-col items-center justify-center h-full text-neutral-500 group-hover:text-neutral-300 transition-colors duration-300">
          <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
             <path strokeLinecap="round" strokeLinejoin="round" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
         </svg>
         <span className="font-permanent-marker text-xl text-center">{caption}</span>
+        {onDevelop && (
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onDevelop();
+                }}
+                className="mt-2 font-permanent-marker text-sm text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300"
+            >
+                Develop
+            </button>
+        )}
     </div>
 );
 
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, dragConstraintsRef, onShake, onDownload, isMobile }) => {
+const VariantControls = ({ count, viewIndex, chosen, developingCount, onView, onChoose, onCancel }: {
+    count: number;
+    viewIndex: number;
+    chosen?: number;
+    developingCount: number;
+    onView: (index: number) => void;
+    onChoose?: (index: number) => void;
+    /** Stops the takes still developing; the ones already in stay. */
+    onCancel?: () => void;
+}) => {
+    const buttonClasses = "p-1 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white disabled:opacity-30";
+    return (
+        <div className="absolute bottom-2 left-0 right-0 z-20 flex items-center justify-center gap-2 text-white text-sm">
+            {count > 1 && (
+                <>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onView(viewIndex - 1); }}
+                        disabled={viewIndex === 0}
+                        className={buttonClasses}
+                        aria-label="Previous take"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" /></svg>
+                    </button>
+                    <span className="px-2 py-0.5 bg-black/50 rounded-full font-special-elite">{viewIndex + 1}/{count}</span>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onView(viewIndex + 1); }}
+                        disabled={viewIndex === count - 1}
+                        className={buttonClasses}
+                        aria-label="Next take"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" /></svg>
+                    </button>
+                    {onChoose && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onChoose(viewIndex); }}
+                            className={cn(buttonClasses, viewIndex === chosen && "text-yellow-400")}
+                            aria-label={viewIndex === chosen ? "This is the chosen take" : "Choose this take"}
+                            aria-pressed={viewIndex === chosen}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill={viewIndex === chosen ? "currentColor" : "none"} stroke="currentColor" strokeWidth={1.5}>
+                                <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                            </svg>
+                        </button>
+                    )}
+                </>
+            )}
+            {developingCount > 0 && (
+                <span className="px-2 py-0.5 bg-black/50 rounded-full font-special-elite">+{developingCount} developing</span>
+            )}
+            {developingCount > 0 && onCancel && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); onCancel(); }}
+                    className={buttonClasses}
+                    aria-label="Cancel the takes still developing"
+                    title="Cancel"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+            )}
+        </div>
+    );
+};
+
+const HistoryControls = ({ position, length, note, onUndo, onRedo }: {
+    position: number;
+    length: number;
+    note?: string;
+    onUndo?: () => void;
+    onRedo?: () => void;
+}) => {
+    const buttonClasses = "p-1.5 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white disabled:opacity-30";
+    return (
+        <div className="flex items-center gap-1 text-white text-xs">
+            <button
+                onClick={(e) => { e.stopPropagation(); onUndo?.(); }}
+                disabled={!onUndo}
+                className={buttonClasses}
+                aria-label="Undo (Ctrl+Z)"
+                title="Undo (Ctrl+Z)"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a5 5 0 010 10h-2M3 10l4-4m-4 4l4 4" /></svg>
+            </button>
+            <span className="px-2 py-0.5 bg-black/50 rounded-full font-special-elite" title={note && `Changed: ${note}`}>v{position + 1}/{length}{note && '*'}</span>
+            <button
+                onClick={(e) => { e.stopPropagation(); onRedo?.(); }}
+                disabled={!onRedo}
+                className={buttonClasses}
+                aria-label="Redo (Ctrl+Shift+Z)"
+                title="Redo (Ctrl+Shift+Z)"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M21 10H11a5 5 0 000 10h2m8-10l-4-4m4 4l-4 4" /></svg>
+            </button>
+        </div>
+    );
+};
+
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl: singleImageUrl, variants, chosenVariant, developingCount = 0, caption, status, error, dragConstraintsRef, onShake, onDownload, onRefine, onRepaint, onCancel, onChooseVariant, onUndo, onRedo, historyPosition = 0, historyLength = 0, historyNote, keptPrevious, isMobile }) => {
+    const [viewIndex, setViewIndex] = useState(chosenVariant ?? 0);
+    const variantCount = variants?.length ?? 0;
+    const hasVariants = variantCount > 0;
+    const imageUrl = hasVariants ? variants![Math.min(viewIndex, variantCount - 1)] : singleImageUrl;
+    // Takes that have already developed once skip the fade-in when flipped back to.
+    const developedUrls = useRef(new Set<string>());
     const [isDeveloped, setIsDeveloped] = useState(false);
     const [isImageLoaded, setIsImageLoaded] = useState(false);
     const lastShakeTime = useRef(0);
     const lastVelocity = useRef({ x: 0, y: 0 });
 
+    // Show the chosen take again whenever the choice or the set of takes is replaced.
+    useEffect(() => {
+        setViewIndex(chosenVariant ?? 0);
+    }, [chosenVariant, hasVariants]);
+
     // Reset states when the image URL changes or status goes to pending.
     useEffect(() => {
         if (status === 'pending') {
@@ -60,8 +264,9 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
             setIsImageLoaded(false);
         }
         if (status === 'done' && imageUrl) {
-            setIsDeveloped(false);
-            setIsImageLoaded(false);
+            const alreadyDeveloped = developedUrls.current.has(imageUrl);
+            setIsDeveloped(alreadyDeveloped);
+            setIsImageLoaded(alreadyDeveloped);
         }
     }, [imageUrl, status]);
 
@@ -104,13 +309,54 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
         lastVelocity.current = { x, y };
     };
 
+    // Undo/redo shortcuts apply to the focused card (clicking a card focuses it).
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey)) return;
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey && onUndo) {
+            e.preventDefault();
+            onUndo(caption);
+        } else if (((key === 'z' && e.shiftKey) || key === 'y') && onRedo) {
+            e.preventDefault();
+            onRedo(caption);
+        }
+    };
+
     const cardInnerContent = (
         <>
-            <div className="w-full bg-neutral-900 shadow-inner flex-grow relative overflow-hidden group">
-                {status === 'pending' && <LoadingSpinner />}
-                {status === 'error' && <ErrorDisplay />}
+            <div
+                className="w-full bg-neutral-900 shadow-inner flex-grow relative overflow-hidden group focus:outline-none focus-visible:ring-2 focus-visible:ring-yellow-400"
+                tabIndex={historyLength > 0 ? 0 : undefined}
+                onKeyDown={historyLength > 0 ? handleKeyDown : undefined}
+            >
+                {status === 'pending' && <LoadingSpinner onCancel={onCancel && (() => onCancel(caption))} />}
+                {status === 'error' && <ErrorDisplay error={error} onRetry={onShake && (() => onShake(caption))} />}
                 {status === 'done' && imageUrl && (
                     <>
+                        {historyLength > 1 && (
+                            <div className={cn(
+                                "absolute top-2 left-2 z-20 transition-opacity duration-300",
+                                !isMobile && "opacity-0 group-hover:opacity-100 group-focus:opacity-100",
+                            )}>
+                                <HistoryControls
+                                    position={historyPosition}
+                                    length={historyLength}
+                                    note={historyNote}
+                                    onUndo={onUndo && (() => onUndo(caption))}
+                                    onRedo={onRedo && (() => onRedo(caption))}
+                                />
+                            </div>
+                        )}
+
+                        {keptPrevious && (
+                            <div
+                                className="absolute top-12 left-2 right-2 z-20 text-center text-xs font-special-elite text-white bg-red-900/80 rounded-sm px-2 py-1"
+                                title={error?.detail ?? error?.message}
+                            >
+                                That shake didn't develop — kept your last take.
+                            </div>
+                        )}
+
                         <div className={cn(
                             "absolute top-2 right-2 z-20 flex flex-col gap-2 transition-opacity duration-300",
                             !isMobile && "opacity-0 group-hover:opacity-100",
@@ -128,6 +374,36 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                                         <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                                     </svg>
                                 </button>
+                            )}
+                            {onRefine && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onRefine(caption);
+                                    }}
+                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Refine image for ${caption}`}
+                                    title="Refine"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                                    </svg>
+                                </button>
+                            )}
+                            {onRepaint && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onRepaint(caption);
+                                    }}
+                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Repaint part of the image for ${caption}`}
+                                    title="Repaint an area"
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+                                    </svg>
+                                </button>
                             )}
                              {isMobile && onShake && (
                                 <button
@@ -159,7 +435,10 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                             key={imageUrl}
                             src={imageUrl}
                             alt={caption}
-                            onLoad={() => setIsImageLoaded(true)}
+                            onLoad={() => {
+                                developedUrls.current.add(imageUrl);
+                                setIsImageLoaded(true);
+                            }}
                             className={`w-full h-full object-cover transition-opacity duration-[3000ms] ease-in-out ${
                                 isDeveloped 
                                 ? 'opacity-100' 
@@ -167,9 +446,21 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                             }`}
                             style={{ opacity: isImageLoaded ? undefined : 0 }}
                         />
+
+                        {(variantCount > 1 || developingCount > 0) && (
+                            <VariantControls
+                                count={variantCount}
+                                viewIndex={Math.min(viewIndex, variantCount - 1)}
+                                chosen={chosenVariant}
+                                developingCount={developingCount}
+                                onView={setViewIndex}
+                                onChoose={onChooseVariant && ((index) => onChooseVariant(caption, index))}
+                                onCancel={onCancel && (() => onCancel(caption))}
+                            />
+                        )}
                     </>
                 )}
-                {status === 'done' && !imageUrl && <Placeholder caption={caption} />}
+                {status === 'done' && !imageUrl && <Placeholder caption={caption} onDevelop={onShake && (() => onShake(caption))} />}
             </div>
             <div className="absolute bottom-4 left-4 right-4 text-center px-2">
                 <p className={cn(
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { formatBytes } from '../lib/photoUpload';
+import { forgetPersonalData, getLocalDataReport } from '../lib/privacy';
+import type { LocalDataReport } from '../lib/privacy';
+import { updateSettings, useSettings } from '../lib/settings';
+
+const KEEP_OPTIONS = [
+    { hours: 0, label: "Don't keep them" },
+    { hours: 1, label: 'For 1 hour' },
+    { hours: 24, label: 'For 1 day' },
+    { hours: 24 * 7, label: 'For 1 week' },
+];
+
+interface PrivacyPanelProps {
+    /** Called after everything personal was deleted, so the board can be cleared too. */
+    onForgotten: () => void;
+    onClose: () => void;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ onForgotten, onClose }) => {
+    const settings = useSettings();
+    const [report, setReport] = useState<LocalDataReport | null>(null);
+    const [isForgetting, setIsForgetting] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        getLocalDataReport().then(next => {
+            if (isCurrent) setReport(next);
+        });
+        return () => {
+            isCurrent = false;
+        };
+    }, [settings.keepSessionHours]);
+
+    const handleForget = async () => {
+        setIsForgetting(true);
+        try {
+            await forgetPersonalData();
+            onForgotten();
+            setReport(await getLocalDataReport());
+            setMessage('Your photos, results and API key are gone from this browser.');
+        } finally {
+            setIsForgetting(false);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/20 rounded-md p-6 text-neutral-200 shadow-xl"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="privacy-title"
+            >
+                <div className="flex items-center justify-between mb-6">
+                    <h2 id="privacy-title" className="font-permanent-marker text-2xl text-yellow-400">Privacy</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white text-2xl leading-none" aria-label="Close privacy panel">&times;</button>
+                </div>
+
+                <p className="text-sm text-neutral-400 mb-4">
+                    Photos are re-encoded before they're sent, so location, camera and other metadata never leave your device.
+                    Everything below stays in this browser and is never uploaded.
+                </p>
+
+                <h3 className="font-special-elite text-neutral-300 mb-2">Stored here</h3>
+                {!report ? (
+                    <p className="text-sm text-neutral-500">Checking...</p>
+                ) : report.items.length === 0 ? (
+                    <p className="text-sm text-neutral-500">Nothing.</p>
+                ) : (
+                    <ul className="text-sm space-y-1">
+                        {report.items.map(item => (
+                            <li key={item.label} className="flex justify-between gap-3">
+                                <span className={item.isPersonal ? 'text-neutral-100' : 'text-neutral-400'}>
+                                    {item.label}
+                                    <span className="text-neutral-500"> &middot; {item.lifetime === 'tab' ? 'until the tab closes' : 'in this browser'}</span>
+                                </span>
+                                {item.bytes > 0 && <span className="text-neutral-500 shrink-0">{formatBytes(item.bytes)}</span>}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {report?.session && (
+                    <p className="text-xs text-neutral-500 mt-2">
+                        {report.session.imageCount} images from {formatTime(report.session.startedAt)}, deleted automatically at {formatTime(report.session.expiresAt)}.
+                    </p>
+                )}
+
+                <div className="mt-6 pt-6 border-t border-white/10">
+                    <label htmlFor="keep-session-select" className="block font-special-elite text-neutral-300 mb-2">
+                        Keep my photos and results
+                    </label>
+                    <select
+                        id="keep-session-select"
+                        value={settings.keepSessionHours}
+                        onChange={(e) => updateSettings({ keepSessionHours: Number(e.target.value) })}
+                        className="bg-black/50 border border-white/30 rounded-sm px-3 py-2 focus:outline-none focus:border-yellow-400"
+                    >
+                        {KEEP_OPTIONS.map(option => <option key={option.hours} value={option.hours}>{option.label}</option>)}
+                    </select>
+                    <p className="text-xs text-neutral-500 mt-2">
+                        Kept sessions come back after a reload. They're deleted once this long has passed since you chose the photos.
+                    </p>
+                </div>
+
+                <div className="mt-6 pt-6 border-t border-white/10">
+                    <button
+                        onClick={handleForget}
+                        disabled={isForgetting}
+                        className="font-permanent-marker text-white bg-red-600 py-2 px-4 rounded-sm hover:bg-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isForgetting ? 'Forgetting...' : 'Forget Me'}
+                    </button>
+                    <p className="text-xs text-neutral-500 mt-2">
+                        Deletes your photos, every result and its history, and your API key. Settings and archetypes stay.
+                    </p>
+                    {message && <p className="text-sm text-green-400 mt-2">{message}</p>}
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default PrivacyPanel;
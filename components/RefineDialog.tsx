@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { RefinementStep } from '../services/geminiService';
+import { MAX_INSTRUCTION_LENGTH } from '../services/prompts';
+
+interface RefineDialogProps {
+    caption: string;
+    /** A data URL of the take being refined. */
+    imageUrl: string;
+    /** The refinements that led to it, oldest first. */
+    steps: RefinementStep[];
+    onRefine: (instruction: string) => void;
+    onClose: () => void;
+}
+
+/** Asks for one change to a finished card, e.g. "bigger gold chain". */
+const RefineDialog: React.FC<RefineDialogProps> = ({ caption, imageUrl, steps, onRefine, onClose }) => {
+    const [instruction, setInstruction] = useState('');
+    const trimmed = instruction.trim();
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (trimmed) onRefine(trimmed);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/20 rounded-md p-6 text-neutral-200 shadow-xl"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="refine-title"
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h2 id="refine-title" className="font-permanent-marker text-2xl text-yellow-400">Refine {caption}</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white text-2xl leading-none" aria-label="Close refine">&times;</button>
+                </div>
+
+                <img src={imageUrl} alt={caption} className="w-full max-h-72 object-contain rounded-sm mb-4" />
+
+                {steps.length > 0 && (
+                    <div className="mb-4">
+                        <p className="text-sm text-neutral-500 mb-1">Changes so far</p>
+                        <ol className="list-decimal list-inside text-sm text-neutral-300 font-special-elite">
+                            {steps.map((step, index) => <li key={index}>{step.instruction}</li>)}
+                        </ol>
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit}>
+                    <label htmlFor="refine-instruction" className="block text-sm text-neutral-500 mb-1">
+                        What should change? Everything else stays as it is.
+                    </label>
+                    <textarea
+                        id="refine-instruction"
+                        value={instruction}
+                        onChange={(e) => setInstruction(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) handleSubmit(e);
+                        }}
+                        maxLength={MAX_INSTRUCTION_LENGTH}
+                        rows={3}
+                        autoFocus
+                        placeholder="bigger gold chain"
+                        className="w-full bg-black/50 border border-white/30 rounded-sm px-3 py-2 text-sm focus:outline-none focus:border-yellow-400"
+                    />
+                    <div className="flex items-center justify-between mt-4">
+                        <span className="text-xs text-neutral-500">{instruction.length}/{MAX_INSTRUCTION_LENGTH}</span>
+                        <button
+                            type="submit"
+                            disabled={!trimmed}
+                            className="font-permanent-marker text-black bg-yellow-400 py-2 px-4 rounded-sm hover:bg-yellow-300 disabled:opacity-40"
+                        >
+                            Refine
+                        </button>
+                    </div>
+                </form>
+            </motion.div>
+        </div>
+    );
+};
+
+export default RefineDialog;
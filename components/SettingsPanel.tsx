@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { clearApiKey, hasApiKey, setApiKey } from '../services/apiKeyStore';
+import { validateGeminiApiKey } from '../services/geminiProvider';
+import { getImageProvider } from '../services/imageProvider';
+import { updateSettings, useSettings } from '../lib/settings';
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const VARIANT_OPTIONS = [1, 2, 3, 4];
+const UPLOAD_EDGE_OPTIONS = [768, 1024, 1536, 2048];
+
+interface SettingsPanelProps {
+    onClose: () => void;
+}
+
+type KeyCheckState = 'idle' | 'checking' | 'valid' | 'invalid';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
+    const [keyInput, setKeyInput] = useState('');
+    const [keyCheck, setKeyCheck] = useState<KeyCheckState>('idle');
+    const [keyError, setKeyError] = useState<string | null>(null);
+    const [hasStoredKey, setHasStoredKey] = useState(hasApiKey());
+    const provider = getImageProvider();
+    const settings = useSettings();
+
+    const handleSaveKey = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const key = keyInput.trim();
+        if (!key) return;
+
+        setKeyCheck('checking');
+        setKeyError(null);
+        try {
+            await validateGeminiApiKey(key);
+            setApiKey(key);
+            setKeyInput('');
+            setHasStoredKey(true);
+            setKeyCheck('valid');
+        } catch (err) {
+            console.error("API key validation failed:", err);
+            setKeyError(err instanceof Error ? err.message : 'The key could not be verified.');
+            setKeyCheck('invalid');
+        }
+    };
+
+    const handleForgetKey = () => {
+        clearApiKey();
+        setHasStoredKey(false);
+        setKeyCheck('idle');
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-md bg-neutral-900 border border-white/20 rounded-md p-6 text-neutral-200 shadow-xl"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="settings-title"
+            >
+                <div className="flex items-center justify-between mb-6">
+                    <h2 id="settings-title" className="font-permanent-marker text-2xl text-yellow-400">Settings</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white text-2xl leading-none" aria-label="Close settings">&times;</button>
+                </div>
+
+                <p className="font-special-elite text-sm text-neutral-400 mb-4">
+                    Image provider: <span className="text-neutral-200">{provider.displayName}</span>
+                </p>
+
+                <form onSubmit={handleSaveKey} className="space-y-3">
+                    <label htmlFor="api-key-input" className="block font-special-elite text-neutral-300">
+                        Gemini API key
+                    </label>
+                    <input
+                        id="api-key-input"
+                        type="password"
+                        autoComplete="off"
+                        value={keyInput}
+                        onChange={(e) => setKeyInput(e.target.value)}
+                        placeholder={hasStoredKey ? 'A key is saved for this session' : 'Paste your key here'}
+                        className="w-full bg-black/50 border border-white/30 rounded-sm px-3 py-2 font-mono text-sm focus:outline-none focus:border-yellow-400"
+                    />
+                    <p className="text-xs text-neutral-500">
+                        Your key stays in this browser tab's session storage and is sent only to Google.
+                    </p>
+                    {keyCheck === 'valid' && <p className="text-sm text-green-400">Key verified and saved.</p>}
+                    {keyCheck === 'invalid' && <p className="text-sm text-red-400">That key didn't work: {keyError}</p>}
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="submit"
+                            disabled={!keyInput.trim() || keyCheck === 'checking'}
+                            className="font-permanent-marker text-black bg-yellow-400 py-2 px-4 rounded-sm hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {keyCheck === 'checking' ? 'Checking...' : 'Check & Save'}
+                        </button>
+                        {hasStoredKey && (
+                            <button
+                                type="button"
+                                onClick={handleForgetKey}
+                                className="font-permanent-marker text-white border border-white/50 py-2 px-4 rounded-sm hover:bg-white hover:text-black"
+                            >
+                                Forget Key
+                            </button>
+                        )}
+                    </div>
+                </form>
+
+                <div className="mt-6 pt-6 border-t border-white/10">
+                    <label htmlFor="concurrency-select" className="block font-special-elite text-neutral-300 mb-2">
+                        Photos developed at once
+                    </label>
+                    <select
+                        id="concurrency-select"
+                        value={settings.concurrency}
+                        onChange={(e) => updateSettings({ concurrency: Number(e.target.value) })}
+                        className="bg-black/50 border border-white/30 rounded-sm px-3 py-2 focus:outline-none focus:border-yellow-400"
+                    >
+                        {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                    <p className="text-xs text-neutral-500 mt-2">
+                        Lower this if you keep hitting rate limits.
+                    </p>
+                </div>
+
+                <div className="mt-6">
+                    <label htmlFor="variants-select" className="block font-special-elite text-neutral-300 mb-2">
+                        Takes per look
+                    </label>
+                    <select
+                        id="variants-select"
+                        value={settings.variants}
+                        onChange={(e) => updateSettings({ variants: Number(e.target.value) })}
+                        className="bg-black/50 border border-white/30 rounded-sm px-3 py-2 focus:outline-none focus:border-yellow-400"
+                    >
+                        {VARIANT_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                    <p className="text-xs text-neutral-500 mt-2">
+                        More takes give you more to pick from, but each one is a separate request.
+                    </p>
+                </div>
+
+                <div className="mt-6">
+                    <label htmlFor="upload-edge-select" className="block font-special-elite text-neutral-300 mb-2">
+                        Photo size sent
+                    </label>
+                    <select
+                        id="upload-edge-select"
+                        value={settings.maxUploadEdge}
+                        onChange={(e) => updateSettings({ maxUploadEdge: Number(e.target.value) })}
+                        className="bg-black/50 border border-white/30 rounded-sm px-3 py-2 focus:outline-none focus:border-yellow-400"
+                    >
+                        {UPLOAD_EDGE_OPTIONS.map(n => <option key={n} value={n}>{n}px longest edge</option>)}
+                    </select>
+                    <p className="text-xs text-neutral-500 mt-2">
+                        Bigger photos keep more detail but upload slower. Applies to the next photo you choose.
+                    </p>
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+
+interface StyleReferencePickerProps {
+    /** A data URL of the current reference, if there is one. */
+    image: string | null;
+    isPreparing: boolean;
+    error: string | null;
+    onPick: (file: File) => void;
+    onRemove: () => void;
+}
+
+/** Chooses the still whose grading and composition the archetypes follow. */
+const StyleReferencePicker: React.FC<StyleReferencePickerProps> = ({ image, isPreparing, error, onPick, onRemove }) => {
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onPick(file);
+    };
+
+    return (
+        <div className="flex items-center gap-4 max-w-md bg-black/30 border border-white/10 rounded-sm p-3">
+            <label htmlFor="style-reference-upload" className="shrink-0 cursor-pointer" title="Choose a style reference">
+                {image ? (
+                    <img src={image} alt="Style reference" className="w-16 h-16 object-cover rounded-sm" />
+                ) : (
+                    <span className="flex w-16 h-16 items-center justify-center rounded-sm border border-dashed border-white/30 text-2xl text-neutral-500 hover:border-yellow-400 hover:text-yellow-400">+</span>
+                )}
+            </label>
+            <input id="style-reference-upload" type="file" className="hidden" accept="image/*" onChange={handleChange} />
+            <div className="font-special-elite text-sm text-neutral-400">
+                <p className="text-neutral-300">Style reference</p>
+                {isPreparing ? (
+                    <p>Reading the reference...</p>
+                ) : error ? (
+                    <p className="text-red-400">{error}</p>
+                ) : image ? (
+                    <p>
+                        Each archetype follows its look, as closely as set in the archetype editor.{' '}
+                        <button onClick={onRemove} className="text-neutral-500 hover:text-neutral-300 underline">Remove</button>
+                    </p>
+                ) : (
+                    <p>Optional: a film still or an old club flyer whose grading and composition the looks should match.</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default StyleReferencePicker;
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { useThemePacks } from '../themes';
+
+interface ThemeSwitcherProps {
+    current: string;
+    onSwitch: (packId: string) => void;
+}
+
+const ThemeSwitcher: React.FC<ThemeSwitcherProps> = ({ current, onSwitch }) => {
+    const packs = useThemePacks();
+    return (
+        <div className="mt-4 flex items-center justify-center gap-2 font-special-elite text-neutral-400">
+            <label htmlFor="theme-pack-select">Scene:</label>
+            <select
+                id="theme-pack-select"
+                value={current}
+                onChange={(e) => onSwitch(e.target.value)}
+                className="bg-black/50 border border-white/30 rounded-sm px-2 py-1 text-neutral-200 focus:outline-none focus:border-yellow-400"
+            >
+                {packs.map(pack => (
+                    <option key={pack.id} value={pack.id}>{pack.name}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+export default ThemeSwitcher;
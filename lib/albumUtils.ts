@@ -2,149 +2,164 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-// Helper function to load an image and return it as an HTMLImageElement
-function loadImage(src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        // Setting crossOrigin is good practice for canvas operations, even with data URLs
-        img.crossOrigin = 'anonymous';
-        img.onload = () => resolve(img);
-        img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
-        img.src = src;
-    });
+import { loadImage } from './imageUtils';
+import { createRandom, drawBackground, drawCover, getLookbookFormat, getLookbookScale, getLookbookTemplate } from './lookbookTemplates';
+import type { LookbookFormatId, LookbookTemplateId } from './lookbookTemplates';
+import type { ThemePack } from '../themes';
+
+/** One look for the lookbook. */
+export interface LookbookEntry {
+    name: string;
+    /** A data URL of the look; leave it out for one that didn't develop, to show a placeholder. */
+    url?: string;
+}
+
+/** What to do with looks that didn't develop. */
+export type FailedLookMode = 'placeholder' | 'skip';
+
+/** A card that could go in the lookbook, whatever state it is in. */
+export interface LookbookCandidate {
+    name: string;
+    url?: string;
+    status: 'done' | 'failed' | 'developing';
 }
 
 /**
- * Creates a single "lookbook" page image from a collection of pimp archetype images.
- * @param imageData A record mapping names to their image data URLs.
- * @returns A promise that resolves to a data URL of the generated lookbook page (JPEG format).
+ * Picks the looks for a lookbook: the chosen cards, in order, leaving out
+ * ones still developing and, unless placeholders are wanted, ones that failed.
+ * @param candidates Every card, in board order.
+ * @param include The names of the cards to put in.
+ * @param failed Whether failed cards get a placeholder or are left out.
  */
-export async function createLookbookPage(imageData: Record<string, string>): Promise<string> {
+export function pickLookbookEntries(candidates: LookbookCandidate[], include: string[], failed: FailedLookMode): LookbookEntry[] {
+    return candidates
+        .filter(card => include.includes(card.name))
+        .filter(card => card.status === 'done' || (card.status === 'failed' && failed === 'placeholder'))
+        .map(({ name, url }) => ({ name, url }));
+}
+
+/**
+ * Creates the "lookbook" pages for a list of looks, starting a new page
+ * whenever the template's page is full. Sets of more than one page are numbered.
+ * @param entries The looks, in the order they should appear.
+ * @param pack The theme pack whose title, colors and fonts style the pages.
+ * @param subtitle A line under the title, such as whose lookbook it is.
+ * @param options The layout template and output format; the scattered polaroids on A4 by default.
+ * @returns A promise that resolves to a data URL per page (JPEG format).
+ */
+export async function createLookbookPages(
+    entries: LookbookEntry[],
+    pack: ThemePack,
+    subtitle?: string,
+    { template = 'scattered', format = 'a4' }: { template?: LookbookTemplateId; format?: LookbookFormatId } = {},
+): Promise<string[]> {
+    const layout = getLookbookTemplate(template);
+    const size = getLookbookFormat(format);
+    const { width, height } = size;
+    const scale = getLookbookScale(size);
+
+    // Canvas text silently falls back to a default font if the pack's hasn't loaded yet.
+    await Promise.all(layout.fonts(pack, scale).map(font => document.fonts.load(font)))
+        .catch(err => console.warn("Lookbook fonts did not load:", err));
+
+    const images = await Promise.all(entries.map(({ url }) => url ? loadImage(url) : undefined));
+    const cards = entries.map(({ name }, index) => ({ name, img: images[index] }));
+    const perPage = Math.max(1, layout.perPage(size));
+    const pageCount = Math.max(1, Math.ceil(cards.length / perPage));
+
+    const pages: string[] = [];
+    for (let index = 0; index < pageCount; index++) {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get 2D canvas context');
+        }
+
+        const offset = index * perPage;
+        const pageCards = cards.slice(offset, offset + perPage);
+        // Seeded from the page's contents, so the same looks always scatter the same way.
+        const seed = [layout.id, format, subtitle ?? '', index, ...pageCards.map(card => card.name)].join('|');
+        let hash = 0;
+        for (let i = 0; i < seed.length; i++) {
+            hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+        }
+
+        layout.draw({ ctx, width, height, scale, cards: pageCards, pack, subtitle, random: createRandom(hash), pageNumber: index + 1, pageCount, offset });
+        pages.push(canvas.toDataURL('image/jpeg', 0.9));
+    }
+    return pages;
+}
+
+/** One person's row on the crew sheet. */
+export interface CrewSheetRow {
+    name: string;
+    /** The photo their looks were developed from. */
+    photo: string;
+    /** Their finished looks, in board order. */
+    looks: { name: string; url: string }[];
+}
+
+/**
+ * Creates one landscape sheet with a row per person: their original photo
+ * followed by every look they got.
+ * @param rows The people, in batch order.
+ * @param pack The theme pack whose colors and fonts style the sheet.
+ * @returns A promise that resolves to a data URL of the sheet (JPEG format).
+ */
+export async function createCrewSheet(rows: CrewSheetRow[], pack: ThemePack): Promise<string> {
+    const { lookbook: style, fonts } = pack;
+    const columns = Math.max(1, ...rows.map(row => row.looks.length)) + 1;
+    const padding = 60;
+    const headerHeight = 360;
+    const labelHeight = 90;
+    // Cells are 3:4 like the cards; the sheet grows to fit the crew.
+    const cellWidth = 420;
+    const cellHeight = cellWidth * 4 / 3;
     const canvas = document.createElement('canvas');
-    // High-resolution canvas for good quality (A4-like ratio)
-    const canvasWidth = 2480;
-    const canvasHeight = 3508;
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
-    
+    canvas.width = padding + columns * (cellWidth + padding);
+    canvas.height = headerHeight + rows.length * (cellHeight + labelHeight + padding) + padding;
+
     const ctx = canvas.getContext('2d');
     if (!ctx) {
         throw new Error('Could not get 2D canvas context');
     }
 
-    // 1. Draw the gritty background
-    ctx.fillStyle = '#2d2d2d';
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-    
-    // Add a subtle concrete texture
-    for (let i = 0; i < 150000; i++) {
-        const color = Math.floor(Math.random() * 50) + 10;
-        ctx.fillStyle = `rgba(${color},${color},${color},${Math.random() * 0.5})`;
-        ctx.fillRect(Math.random() * canvasWidth, Math.random() * canvasHeight, 2, 2);
-    }
+    await Promise.all([
+        document.fonts.load(`160px ${fonts.display}`),
+        document.fonts.load(`64px ${fonts.caption}`),
+    ]).catch(err => console.warn("Crew sheet fonts did not load:", err));
 
+    drawBackground(ctx, canvas.width, canvas.height, style);
 
-    // 2. Draw the title
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
-    ctx.font = `bold 220px 'Monoton', cursive`;
-    
-    // Neon effect for title
-    ctx.shadowColor = '#f0f';
-    ctx.shadowBlur = 40;
-    ctx.fillStyle = '#f0f';
-    ctx.fillText('HAMBURG', canvasWidth / 2, 180);
-
-    ctx.shadowColor = '#0ff';
-    ctx.shadowBlur = 40;
-    ctx.fillStyle = '#0ff';
-    ctx.fillText("'84", canvasWidth / 2, 400);
-
+    ctx.font = `bold 160px ${fonts.display}`;
+    const title = style.title.map(line => line.text).join(' ');
+    ctx.shadowColor = style.title[0]?.color ?? '#fff';
+    ctx.shadowBlur = 30;
+    ctx.fillStyle = style.title[0]?.color ?? '#fff';
+    ctx.fillText(title, canvas.width / 2, headerHeight / 2, canvas.width - padding * 2);
     ctx.shadowColor = 'transparent';
     ctx.shadowBlur = 0;
 
-
-    // 3. Load all the images concurrently
-    const figures = Object.keys(imageData);
-    const loadedImages = await Promise.all(
-        Object.values(imageData).map(url => loadImage(url))
-    );
-
-    const imagesWithFigures = figures.map((figure, index) => ({
-        figure,
-        img: loadedImages[index],
-    }));
-
-    // 4. Define layout and draw each photo
-    const grid = { cols: 2, rows: 3, padding: 100 };
-    const contentTopMargin = 550; // Space for the header
-    const contentHeight = canvasHeight - contentTopMargin;
-    const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
-    const cellHeight = (contentHeight - grid.padding * (grid.rows + 1)) / grid.rows;
-
-    const photoWidth = cellWidth * 0.9;
-    const photoHeight = photoWidth * 1.25; // A bit taller than a standard polaroid
-
-    imagesWithFigures.forEach(({ figure, img }, index) => {
-        const row = Math.floor(index / grid.cols);
-        const col = index % grid.cols;
-
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - photoWidth) / 2;
-        const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row;
-        
-        ctx.save();
-        ctx.translate(x + photoWidth / 2, y + photoHeight / 2);
-        
-        // Apply a stronger, random rotation for a scattered look
-        const rotation = (Math.random() - 0.5) * 0.15; 
-        ctx.rotate(rotation);
-        
-        // Draw a harsh shadow
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.7)';
-        ctx.shadowBlur = 35;
-        ctx.shadowOffsetX = 15;
-        ctx.shadowOffsetY = 20;
-        
-        // Draw the white photo border
-        ctx.fillStyle = '#f0f0e5'; // Off-white, aged paper
-        ctx.fillRect(-photoWidth / 2, -photoHeight / 2, photoWidth, photoHeight);
-        
-        ctx.shadowColor = 'transparent';
-        
-        const inset = 35;
-        const imageContainerWidth = photoWidth - inset * 2;
-        const imageContainerHeight = photoHeight - inset * 2 - 100; // Leave space for caption
-
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        let drawWidth = imageContainerWidth;
-        let drawHeight = drawWidth / aspectRatio;
-
-        if (drawHeight > imageContainerHeight) {
-            drawHeight = imageContainerHeight;
-            drawWidth = drawHeight * aspectRatio;
-        }
-        
-        const imgX = -drawWidth / 2;
-        const imgY = -photoHeight/2 + inset + (imageContainerHeight - drawHeight) / 2;
-        
-        ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
-        
-        // Draw the handwritten caption
-        ctx.fillStyle = '#111';
-        ctx.font = `80px 'Permanent Marker', cursive`;
-        ctx.textAlign = 'center';
-        const captionY = (photoHeight / 2) - 60;
-        ctx.fillText(figure, 0, captionY);
-
-        // Draw "tape" on corners
-        ctx.fillStyle = 'rgba(255, 255, 180, 0.6)';
-        ctx.rotate(0.8); // Rotate the tape slightly differently
-        ctx.fillRect(-photoWidth/2 - 20, -photoHeight/2 - 50, 180, 50);
-        ctx.rotate(-1.6);
-        ctx.fillRect(photoWidth/2 - 160, photoHeight/2, 180, 50);
-        
-        ctx.restore();
+    // Each row starts with the person's own photo, captioned with their name.
+    const cells = rows.map(row => [{ name: row.name, url: row.photo }, ...row.looks]);
+    const loaded = await Promise.all(cells.map(row => Promise.all(row.map(cell => loadImage(cell.url)))));
+
+    ctx.font = `64px ${fonts.caption}`;
+    loaded.forEach((images, rowIndex) => {
+        const y = headerHeight + rowIndex * (cellHeight + labelHeight + padding);
+        images.forEach((img, col) => {
+            const x = padding + col * (cellWidth + padding);
+            ctx.fillStyle = style.paper;
+            ctx.fillRect(x - 12, y - 12, cellWidth + 24, cellHeight + labelHeight + 12);
+            drawCover(ctx, img, x, y, cellWidth, cellHeight);
+            ctx.fillStyle = style.captionColor;
+            ctx.fillText(cells[rowIndex][col].name, x + cellWidth / 2, y + cellHeight + labelHeight / 2, cellWidth - 20);
+        });
     });
 
     return canvas.toDataURL('image/jpeg', 0.9);
-}
\ No newline at end of file
+}
@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { validateArchetypeContent } from './archetypeRegistry';
+import type { Archetype, ArchetypeDraft } from './archetypeRegistry';
+import { ARCHETYPE_FIELDS, MAX_CREW_SIZE, MAX_PROMPT_LENGTH } from '../services/prompts';
+import type { PromptStyle, StyleStrength } from '../services/prompts';
+import type { LookbookStyle, ThemePack } from '../themes';
+
+const ARCHETYPE_SET_FORMAT = 'hamburg84/archetype-set';
+const THEME_PACK_FORMAT = 'hamburg84/theme-pack';
+
+/**
+ * Version history:
+ * 1. Archetypes were a name and a free-text `prompt` (the shape the app
+ *    stored before archetypes had fields). Theme packs didn't exist yet.
+ * 2. Archetypes are structured fields with an optional custom `template`.
+ *    Crew shots add an optional `roles` list, and the style reference
+ *    optional `styleStrength` and `styleNote`; older readers ignore them.
+ */
+export const ARCHETYPE_FILE_VERSION = 2;
+
+/** Largest file the importer will read. */
+export const MAX_IMPORT_BYTES = 1024 * 1024;
+
+const MAX_ARCHETYPES = 50;
+const MAX_TEXT_LENGTH = 200;
+const PACK_ID = /^[a-z0-9][a-z0-9-]{0,39}$/i;
+const COLOR = /^(#[0-9a-f]{3,8}|(rgb|rgba|hsl|hsla)\([\d\s.,%]+\)|[a-z]+)$/i;
+const FONT_FAMILY = /^[\w\s'",-]+$/;
+const STYLE_STRENGTH = /^(match|hint|ignore)$/;
+// Imported packs can only pull fonts from Google Fonts, not arbitrary hosts.
+const FONT_STYLESHEET_PREFIX = 'https://fonts.googleapis.com/';
+
+/** A file the importer understood but won't accept, with a message fit to show the user. */
+export class ImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImportError';
+    }
+}
+
+export type ImportedFile =
+    | { kind: 'archetype-set'; packId?: string; archetypes: ArchetypeDraft[] }
+    | { kind: 'theme-pack'; pack: ThemePack };
+
+type JsonObject = Record<string, unknown>;
+
+function readObject(value: unknown, path: string): JsonObject {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ImportError(`${path} should be an object.`);
+    }
+    return value as JsonObject;
+}
+
+function readArray(value: unknown, path: string, maxItems: number): unknown[] {
+    if (!Array.isArray(value)) {
+        throw new ImportError(`${path} should be a list.`);
+    }
+    if (value.length > maxItems) {
+        throw new ImportError(`${path} has ${value.length} entries; at most ${maxItems} are allowed.`);
+    }
+    return value;
+}
+
+function readString(object: JsonObject, key: string, path: string, options: { optional: true; maxLength?: number; pattern?: RegExp }): string | undefined;
+function readString(object: JsonObject, key: string, path: string, options?: { optional?: false; maxLength?: number; pattern?: RegExp }): string;
+function readString(object: JsonObject, key: string, path: string, options: { optional: boolean; maxLength?: number; pattern?: RegExp }): string | undefined;
+function readString(object: JsonObject, key: string, path: string, { optional = false, maxLength = MAX_TEXT_LENGTH, pattern }: { optional?: boolean; maxLength?: number; pattern?: RegExp } = {}): string | undefined {
+    const value = object[key];
+    if (value === undefined && optional) return undefined;
+    if (typeof value !== 'string') {
+        throw new ImportError(`${path}.${key} should be text.`);
+    }
+    if (value.length > maxLength) {
+        throw new ImportError(`${path}.${key} is too long (max ${maxLength} characters).`);
+    }
+    if (pattern && !pattern.test(value)) {
+        throw new ImportError(`${path}.${key} has an unexpected value: "${value}".`);
+    }
+    return value;
+}
+
+function readArchetype(value: unknown, path: string, version: number): ArchetypeDraft {
+    const object = readObject(value, path);
+    const name = readString(object, 'name', path);
+    if (version === 1) {
+        // Free-text prompts carry over as custom templates.
+        return { name, persona: '', template: readString(object, 'prompt', path, { maxLength: MAX_PROMPT_LENGTH }) };
+    }
+
+    const draft: ArchetypeDraft = { name, persona: '' };
+    for (const { key } of ARCHETYPE_FIELDS) {
+        const field = readString(object, key, path, { optional: key !== 'persona', maxLength: MAX_PROMPT_LENGTH });
+        if (field !== undefined) draft[key] = field;
+    }
+    draft.template = readString(object, 'template', path, { optional: true, maxLength: MAX_PROMPT_LENGTH });
+    draft.styleStrength = readString(object, 'styleStrength', path, { optional: true, pattern: STYLE_STRENGTH }) as StyleStrength | undefined;
+    draft.styleNote = readString(object, 'styleNote', path, { optional: true });
+    if (object.roles !== undefined) {
+        draft.roles = readArray(object.roles, `${path}.roles`, MAX_CREW_SIZE).map((role, index) => {
+            if (typeof role !== 'string' || role.length > MAX_TEXT_LENGTH) {
+                throw new ImportError(`${path}.roles[${index}] should be text of at most ${MAX_TEXT_LENGTH} characters.`);
+            }
+            return role;
+        });
+    }
+    return draft;
+}
+
+function readArchetypes(value: unknown, path: string, version: number, style?: PromptStyle): ArchetypeDraft[] {
+    const archetypes = readArray(value, path, MAX_ARCHETYPES).map((item, index) => readArchetype(item, `${path}[${index}]`, version));
+    archetypes.forEach((draft, index) => {
+        const problem = validateArchetypeContent(draft, style);
+        if (problem) {
+            throw new ImportError(`${path}[${index}] ("${draft.name}"): ${problem}`);
+        }
+    });
+    return archetypes;
+}
+
+function readStringRecord(value: unknown, path: string): Record<string, string> {
+    const object = readObject(value, path);
+    const record: Record<string, string> = {};
+    for (const key of Object.keys(object)) {
+        record[key] = readString(object, key, path, { maxLength: MAX_PROMPT_LENGTH });
+    }
+    return record;
+}
+
+function readLookbook(value: unknown, path: string): LookbookStyle {
+    const object = readObject(value, path);
+    const title = readArray(object.title, `${path}.title`, 4).map((item, index) => {
+        const linePath = `${path}.title[${index}]`;
+        const line = readObject(item, linePath);
+        return {
+            text: readString(line, 'text', linePath, { maxLength: 20 }),
+            color: readString(line, 'color', linePath, { pattern: COLOR }),
+        };
+    });
+    if (typeof object.grain !== 'boolean') {
+        throw new ImportError(`${path}.grain should be true or false.`);
+    }
+    return {
+        title,
+        background: readString(object, 'background', path, { pattern: COLOR }),
+        paper: readString(object, 'paper', path, { pattern: COLOR }),
+        captionColor: readString(object, 'captionColor', path, { pattern: COLOR }),
+        grain: object.grain,
+        fileName: readString(object, 'fileName', path, { maxLength: 60, pattern: /^[\w-]+$/ }),
+    };
+}
+
+function readThemePack(value: unknown, path: string): ThemePack {
+    const object = readObject(value, path);
+
+    const copy = readObject(object.copy, `${path}.copy`);
+    const fonts = readObject(object.fonts, `${path}.fonts`);
+    const palette = readObject(object.palette, `${path}.palette`);
+    const prompt = readObject(object.prompt, `${path}.prompt`);
+
+    const stylesheet = readString(fonts, 'stylesheet', `${path}.fonts`, { optional: true, maxLength: 500 });
+    if (stylesheet && !stylesheet.startsWith(FONT_STYLESHEET_PREFIX)) {
+        throw new ImportError(`${path}.fonts.stylesheet must be a Google Fonts link (${FONT_STYLESHEET_PREFIX}...).`);
+    }
+
+    const style: PromptStyle = {
+        variables: readStringRecord(prompt.variables, `${path}.prompt.variables`),
+        fragments: prompt.fragments === undefined ? undefined : readStringRecord(prompt.fragments, `${path}.prompt.fragments`),
+        template: readString(prompt, 'template', `${path}.prompt`, { optional: true, maxLength: MAX_PROMPT_LENGTH }),
+        lookPersona: readString(prompt, 'lookPersona', `${path}.prompt`),
+    };
+
+    return {
+        id: readString(object, 'id', path, { pattern: PACK_ID }),
+        name: readString(object, 'name', path, { maxLength: 40 }),
+        copy: {
+            title: readString(copy, 'title', `${path}.copy`, { maxLength: 40 }),
+            tagline: readString(copy, 'tagline', `${path}.copy`),
+            uploadHint: readString(copy, 'uploadHint', `${path}.copy`),
+            generateButton: readString(copy, 'generateButton', `${path}.copy`, { maxLength: 30 }),
+            remixIdea: readString(copy, 'remixIdea', `${path}.copy`, { maxLength: 60 }),
+        },
+        fonts: {
+            display: readString(fonts, 'display', `${path}.fonts`, { pattern: FONT_FAMILY }),
+            body: readString(fonts, 'body', `${path}.fonts`, { pattern: FONT_FAMILY }),
+            caption: readString(fonts, 'caption', `${path}.fonts`, { pattern: FONT_FAMILY }),
+            stylesheet,
+        },
+        palette: {
+            background: readString(palette, 'background', `${path}.palette`, { pattern: COLOR }),
+            title: readString(palette, 'title', `${path}.palette`, { pattern: COLOR }),
+            glow: readString(palette, 'glow', `${path}.palette`, { pattern: COLOR }),
+            tagline: readString(palette, 'tagline', `${path}.palette`, { pattern: COLOR }),
+        },
+        prompt: style,
+        archetypes: readArchetypes(object.archetypes, `${path}.archetypes`, ARCHETYPE_FILE_VERSION, style),
+        lookbook: readLookbook(object.lookbook, `${path}.lookbook`),
+    };
+}
+
+/**
+ * Reads an exported archetype set or theme pack, upgrading older versions.
+ * @param text The file contents.
+ * @returns The archetypes or pack, checked and ready to add.
+ * @throws {ImportError} If the file is malformed, from a newer app version, or fails validation.
+ */
+export function parseImportFile(text: string): ImportedFile {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ImportError("This file isn't valid JSON.");
+    }
+    const file = readObject(data, 'The file');
+
+    const version = file.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new ImportError("The file has no version number, so it can't be read safely.");
+    }
+    if (version > ARCHETYPE_FILE_VERSION) {
+        throw new ImportError(`This file is version ${version}, made by a newer version of the app (this one reads up to ${ARCHETYPE_FILE_VERSION}).`);
+    }
+
+    // Version 1 predates the format marker; those files are plain archetype lists.
+    const format = file.format ?? (version === 1 ? ARCHETYPE_SET_FORMAT : undefined);
+    if (format === ARCHETYPE_SET_FORMAT) {
+        return {
+            kind: 'archetype-set',
+            packId: typeof file.packId === 'string' ? file.packId : undefined,
+            archetypes: readArchetypes(file.archetypes, 'archetypes', version),
+        };
+    }
+    if (format === THEME_PACK_FORMAT) {
+        if (version < 2) {
+            throw new ImportError('Theme packs start at version 2; this file is damaged.');
+        }
+        return { kind: 'theme-pack', pack: readThemePack(file.pack, 'pack') };
+    }
+    throw new ImportError("This doesn't look like an archetype set or theme pack export.");
+}
+
+const toExported = ({ id: _id, ...archetype }: Archetype) => archetype;
+
+/**
+ * Serializes archetypes for sharing.
+ * @param archetypes The archetypes to export, in board order.
+ * @param pack The pack they belong to, recorded so the importer can tell.
+ * @returns Pretty-printed JSON.
+ */
+export function exportArchetypeSet(archetypes: Archetype[], pack: ThemePack): string {
+    return JSON.stringify({
+        format: ARCHETYPE_SET_FORMAT,
+        version: ARCHETYPE_FILE_VERSION,
+        packId: pack.id,
+        archetypes: archetypes.map(toExported),
+    }, null, 2);
+}
+
+/**
+ * Serializes a theme pack, with its archetypes as currently edited.
+ * @returns Pretty-printed JSON.
+ */
+export function exportThemePack(pack: ThemePack, archetypes: Archetype[]): string {
+    return JSON.stringify({
+        format: THEME_PACK_FORMAT,
+        version: ARCHETYPE_FILE_VERSION,
+        pack: { ...pack, archetypes: archetypes.map(toExported) },
+    }, null, 2);
+}
@@ -0,0 +1,354 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useSyncExternalStore } from 'react';
+import { ARCHETYPE_FIELDS, MAX_CREW_SIZE, MAX_PROMPT_LENGTH, MIN_CREW_SIZE, STYLE_STRENGTHS, composeEditPrompt, composePrompt } from '../services/prompts';
+import type { ArchetypeSpec, PromptStyle } from '../services/prompts';
+import { DEFAULT_THEME_PACK, getActiveThemePack, subscribeToThemePacks } from '../themes';
+import type { ThemePack } from '../themes';
+import { subscribeToSettings } from './settings';
+
+export interface Archetype extends ArchetypeSpec {
+    /** Stable identifier; cards and jobs are keyed by it so renaming is safe. */
+    id: string;
+    name: string;
+    /** Replaces the shared prompt template for this archetype only. */
+    template?: string;
+}
+
+/** Everything about an archetype the user can edit. */
+export type ArchetypeDraft = Omit<Archetype, 'id'>;
+
+const STORAGE_KEY = 'hamburg84:archetypes';
+const STORAGE_VERSION = 2;
+
+// Each pack keeps its own list. The default pack uses the original key so
+// archetypes saved before packs existed stay where they were.
+const storageKeyFor = (packId: string) => packId === DEFAULT_THEME_PACK.id ? STORAGE_KEY : `${STORAGE_KEY}:${packId}`;
+
+function slugify(name: string): string {
+    return name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Returns a pack's bundled archetypes, as they are before any edits.
+ */
+export function getDefaultArchetypes(pack: ThemePack): Archetype[] {
+    return pack.archetypes.map(archetype => ({
+        id: slugify(archetype.name),
+        ...archetype,
+    }));
+}
+
+// The built-in prompts as version 1 shipped them, so unedited ones can be recognised.
+const V1_PROMPTS: Record<string, string> = Object.fromEntries(Object.entries({
+    'Kiez-König': 'Reimagine the person in this photo as a powerful Hamburg pimp from the 1980s, the "Kiez-König". The image should be a photorealistic portrait. They are wearing a black leather jacket over an open-collared shirt, heavy gold chains, and have a confident, intimidating expression. The background is a dimly lit, smoky bar on the Reeperbahn. The aesthetic must feel like a gritty 1980s film photograph.',
+    'Luden-Larry': 'Reimagine the person in this photo as a flashy Hamburg pimp from the 1980s, "Luden-Larry". They are wearing a garish, brightly colored silk shirt, a white blazer, and gold-rimmed aviator sunglasses. They are leaning against a classic 80s sports car. The background is filled with the bright neon signs of the Reeperbahn at night. The style should be vibrant and slightly over-saturated, like a high-flash 80s photo.',
+    'Gold-Zahn Günther': 'Reimagine the person in this photo as a tough, street-level Hamburg pimp from the 1980s, "Gold-Zahn Günther". They have a mullet hairstyle and a prominent gold tooth. They are wearing a cheap-looking tracksuit and a scowl. The photo must have a raw, candid feel, as if taken on a gritty side street off the Reeperbahn. The lighting is harsh and the colors are slightly faded.',
+    'Disco Dieter': 'Reimagine the person in this photo as a stylish Hamburg pimp from the 1980s, "Disco Dieter". They are inside a pulsating 80s disco, with a disco ball and colorful lights in the background. They are wearing a shiny shirt, tight pants, and have perfectly coiffed hair. They are holding a cocktail and have a suave look. The image must capture the dynamic, colorful atmosphere of an 80s nightclub.',
+    'Porsche-Paul': 'Reimagine the person in this photo as a wealthy Hamburg pimp from the 1980s, "Porsche-Paul". They are standing proudly next to a white Porsche 911. They are wearing an expensive suit with the jacket open, revealing a flamboyant shirt. Their expression is one of smug success. The scene is set on a Hamburg street at dusk, with the car\'s headlights on. The photo style should be sharp and glossy, like from a car magazine of the era.'
+}).map(([name, prompt]) => [slugify(name), prompt]));
+
+/**
+ * Version 1 stored a free-text prompt per archetype. Built-ins the user never
+ * edited come back as structured archetypes; anything else keeps its text as a
+ * custom template.
+ */
+function migrateV1(archetypes: { id: string; name: string; prompt: string }[], defaults: Archetype[]): Archetype[] {
+    return archetypes.map(({ id, name, prompt }) => {
+        const builtIn = defaults.find(archetype => archetype.id === id);
+        if (builtIn && prompt === V1_PROMPTS[id]) return { ...builtIn, name };
+        return { id, name, persona: '', template: prompt };
+    });
+}
+
+type Listener = (archetypes: Archetype[]) => void;
+const listeners = new Set<Listener>();
+
+function load(pack: ThemePack): Archetype[] {
+    const defaults = getDefaultArchetypes(pack);
+    try {
+        const stored = localStorage.getItem(storageKeyFor(pack.id));
+        if (!stored) return defaults;
+        const parsed = JSON.parse(stored);
+        if (!Array.isArray(parsed?.archetypes)) return defaults;
+        if (parsed.version === 1) return migrateV1(parsed.archetypes, defaults);
+        return parsed.version === STORAGE_VERSION ? parsed.archetypes : defaults;
+    } catch {
+        // Corrupt or unavailable storage; fall back to the built-ins.
+        return defaults;
+    }
+}
+
+let currentPack = getActiveThemePack();
+let current = load(currentPack);
+
+// Switching packs, or re-importing the active one, swaps in that pack's list.
+const reloadIfPackChanged = () => {
+    const pack = getActiveThemePack();
+    if (pack === currentPack) return;
+    currentPack = pack;
+    current = load(pack);
+    listeners.forEach(listener => listener(current));
+};
+subscribeToSettings(reloadIfPackChanged);
+subscribeToThemePacks(reloadIfPackChanged);
+
+function save(archetypes: Archetype[]): Archetype[] {
+    current = archetypes;
+    try {
+        localStorage.setItem(storageKeyFor(currentPack.id), JSON.stringify({ version: STORAGE_VERSION, archetypes }));
+    } catch (err) {
+        console.warn("Could not persist archetypes:", err);
+    }
+    listeners.forEach(listener => listener(current));
+    return current;
+}
+
+function normalizeDraft(draft: Partial<ArchetypeDraft>): Partial<ArchetypeDraft> {
+    const normalized: Partial<ArchetypeDraft> = {};
+    for (const key of ['name', 'template', 'styleNote', ...ARCHETYPE_FIELDS.map(field => field.key)] as const) {
+        const value = draft[key];
+        if (value !== undefined) {
+            normalized[key] = value.trim();
+        }
+    }
+    // An empty custom template means "use the shared one".
+    if (normalized.template === '') {
+        normalized.template = undefined;
+    }
+    if (normalized.styleNote === '') {
+        normalized.styleNote = undefined;
+    }
+    if (draft.styleStrength !== undefined) {
+        normalized.styleStrength = draft.styleStrength;
+    }
+    // Likewise, no roles means a solo portrait.
+    if (draft.roles !== undefined) {
+        const roles = draft.roles.map(role => role.trim()).filter(Boolean);
+        normalized.roles = roles.length > 0 ? roles : undefined;
+    }
+    return normalized;
+}
+
+function uniqueName(base: string, taken: Archetype[]): string {
+    let name = base;
+    for (let n = 2; taken.some(a => a.name.toLowerCase() === name.toLowerCase()); n++) {
+        name = `${base} (${n})`;
+    }
+    return name;
+}
+
+function newId(name: string): string {
+    return `${slugify(name) || 'archetype'}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Returns the archetypes in board order.
+ */
+export function getArchetypes(): Archetype[] {
+    return current;
+}
+
+/**
+ * Looks up an archetype by id.
+ */
+export function getArchetype(id: string): Archetype | undefined {
+    return current.find(archetype => archetype.id === id);
+}
+
+/**
+ * Composes the prompt the image model receives for an archetype, worded by the active pack.
+ * @param options Whether a style reference is sent after the photos.
+ * @throws {Error} If a custom template refers to a fragment that doesn't exist.
+ */
+export function getArchetypePrompt(archetype: ArchetypeSpec & Partial<Pick<Archetype, 'name' | 'template'>>, options?: { styleReference?: boolean }): string {
+    return composePrompt(archetype, currentPack.prompt, archetype.template || undefined, options);
+}
+
+/**
+ * Words a refinement instruction for the model, in the active pack's phrasing.
+ * @param options Whether a mask follows the image.
+ */
+export function getEditPrompt(instruction: string, options?: { masked?: boolean }): string {
+    return composeEditPrompt(instruction, currentPack.prompt, options);
+}
+
+/**
+ * Checks everything about a draft except whether its name is taken.
+ * @param draft The archetype to check.
+ * @param style The pack wording to compose its prompt with; the active pack's by default.
+ * @returns A readable problem, or null if the draft is valid.
+ */
+export function validateArchetypeContent(draft: ArchetypeDraft, style: PromptStyle = currentPack.prompt): string | null {
+    const name = draft.name.trim();
+    if (!name) return 'Give the archetype a name.';
+    if (name.length > 40) return 'Keep the name under 40 characters so it fits on the card.';
+    if (!draft.template?.trim() && !draft.persona.trim()) return 'Describe the persona.';
+    const roles = draft.roles?.filter(role => role.trim()) ?? [];
+    if (roles.length > 0 && (roles.length < MIN_CREW_SIZE || roles.length > MAX_CREW_SIZE)) {
+        return `A crew shot needs ${MIN_CREW_SIZE} to ${MAX_CREW_SIZE} roles.`;
+    }
+    if (draft.styleStrength !== undefined && !STYLE_STRENGTHS.some(option => option.value === draft.styleStrength)) {
+        return `Unknown style reference setting: ${draft.styleStrength}.`;
+    }
+
+    // Composed as sent with a style reference, the longest form, so the style note is checked too.
+    let prompt: string;
+    try {
+        prompt = composePrompt(draft, style, draft.template || undefined, { styleReference: true });
+    } catch (err) {
+        return (err as Error).message;
+    }
+    if (!prompt) return 'The prompt is empty.';
+    if (prompt.length > MAX_PROMPT_LENGTH) return `The prompt is too long (max ${MAX_PROMPT_LENGTH} characters).`;
+    return null;
+}
+
+/**
+ * Checks a draft before saving.
+ * @param draft The archetype to check.
+ * @param ignoreId The archetype being edited, which may keep its own name.
+ * @returns A readable problem, or null if the draft is valid.
+ */
+export function validateArchetype(draft: ArchetypeDraft, ignoreId?: string): string | null {
+    const name = draft.name.trim();
+    if (current.some(a => a.id !== ignoreId && a.name.trim().toLowerCase() === name.toLowerCase())) {
+        return `There is already an archetype called "${name}".`;
+    }
+    return validateArchetypeContent(draft);
+}
+
+/**
+ * Adds an archetype at the end of the board.
+ * @returns The created archetype.
+ */
+export function createArchetype(draft: ArchetypeDraft): Archetype {
+    const archetype = { ...normalizeDraft(draft), id: newId(draft.name) } as Archetype;
+    save([...current, archetype]);
+    return archetype;
+}
+
+/**
+ * Changes some of an archetype's fields.
+ */
+export function updateArchetype(id: string, patch: Partial<ArchetypeDraft>): void {
+    save(current.map(archetype => archetype.id === id ? { ...archetype, ...normalizeDraft(patch) } : archetype));
+}
+
+/**
+ * Copies an archetype, placing the copy right after the original.
+ * @returns The copy.
+ */
+export function duplicateArchetype(id: string): Archetype | undefined {
+    const index = current.findIndex(archetype => archetype.id === id);
+    if (index < 0) return undefined;
+
+    const original = current[index];
+    const name = uniqueName(`${original.name} (copy)`, current);
+    const copy = { ...original, id: newId(name), name };
+    save([...current.slice(0, index + 1), copy, ...current.slice(index + 1)]);
+    return copy;
+}
+
+/**
+ * Moves an archetype up or down the board.
+ * @param offset -1 to move up, 1 to move down.
+ */
+export function moveArchetype(id: string, offset: number): void {
+    const index = current.findIndex(archetype => archetype.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= current.length) return;
+
+    const next = [...current];
+    [next[index], next[target]] = [next[target], next[index]];
+    save(next);
+}
+
+/** What to do with an imported archetype whose name is already on the board. */
+export type ImportConflictStrategy = 'replace' | 'keep-both' | 'skip';
+
+export interface ImportSummary {
+    added: number;
+    replaced: number;
+    skipped: number;
+}
+
+/**
+ * Lists the incoming archetypes whose names are already taken.
+ */
+export function findNameConflicts(drafts: ArchetypeDraft[]): string[] {
+    return drafts
+        .filter(draft => current.some(a => a.name.toLowerCase() === draft.name.trim().toLowerCase()))
+        .map(draft => draft.name.trim());
+}
+
+/**
+ * Adds archetypes from a file to the end of the board.
+ * @param drafts Archetypes that passed `validateArchetypeContent`.
+ * @param onConflict How to treat names that are already taken.
+ * @returns How many were added, replaced in place and skipped.
+ */
+export function importArchetypes(drafts: ArchetypeDraft[], onConflict: ImportConflictStrategy): ImportSummary {
+    const summary: ImportSummary = { added: 0, replaced: 0, skipped: 0 };
+    let next = [...current];
+    for (const draft of drafts) {
+        const normalized = normalizeDraft(draft) as ArchetypeDraft;
+        const existing = next.find(a => a.name.toLowerCase() === normalized.name.toLowerCase());
+        if (existing && onConflict === 'skip') {
+            summary.skipped++;
+        } else if (existing && onConflict === 'replace') {
+            // Keep the id so cards already on the board pick up the new version.
+            next = next.map(a => a === existing ? { ...normalized, id: existing.id } : a);
+            summary.replaced++;
+        } else {
+            const name = existing ? uniqueName(normalized.name, next) : normalized.name;
+            next.push({ ...normalized, name, id: newId(name) });
+            summary.added++;
+        }
+    }
+    save(next);
+    return summary;
+}
+
+/**
+ * Drops a pack's saved edits so it starts again from its bundled archetypes.
+ */
+export function forgetArchetypes(packId: string): void {
+    try {
+        localStorage.removeItem(storageKeyFor(packId));
+    } catch (err) {
+        console.warn("Could not clear archetypes:", err);
+    }
+}
+
+/**
+ * Removes an archetype.
+ */
+export function deleteArchetype(id: string): void {
+    save(current.filter(archetype => archetype.id !== id));
+}
+
+/**
+ * Discards all edits and restores the active pack's bundled archetypes.
+ */
+export function resetArchetypes(): void {
+    save(getDefaultArchetypes(currentPack));
+}
+
+/**
+ * Subscribes to registry changes.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToArchetypes(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+/**
+ * React hook returning the archetypes, re-rendering when they change.
+ */
+export function useArchetypes(): Archetype[] {
+    return useSyncExternalStore(subscribeToArchetypes, getArchetypes);
+}
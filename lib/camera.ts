@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Set FAKE_CAMERA=true to swap the real camera for generated test streams, for
+// development and automated tests on machines without one.
+const USE_FAKE_CAMERA = process.env.FAKE_CAMERA === 'true';
+
+/** A camera problem, with a message fit to show the user. */
+export class CameraError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CameraError';
+    }
+}
+
+export interface CameraDevice {
+    deviceId: string;
+    label: string;
+}
+
+const FAKE_CAMERAS: (CameraDevice & { color: string })[] = [
+    { deviceId: 'fake-front', label: 'Fake front camera', color: '#be185d' },
+    { deviceId: 'fake-back', label: 'Fake back camera', color: '#0e7490' },
+];
+
+/**
+ * Creates an animated test pattern as a camera stream: a silhouette on a
+ * colored background with a running clock, so frozen frames are easy to spot.
+ * @param color The background color, to tell fake cameras apart.
+ */
+export function createFakeCameraStream(color = FAKE_CAMERAS[0].color): MediaStream {
+    const canvas = document.createElement('canvas');
+    canvas.width = 960;
+    canvas.height = 720;
+    const ctx = canvas.getContext('2d')!;
+    const stream = canvas.captureStream(30);
+    const [track] = stream.getVideoTracks();
+
+    const draw = () => {
+        // Stopping a track doesn't fire `ended`, so check on every frame.
+        if (track.readyState === 'ended') return;
+        const t = performance.now() / 1000;
+        ctx.fillStyle = color;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.fillStyle = '#f5d0a9';
+        ctx.beginPath();
+        ctx.arc(480 + Math.sin(t) * 40, 300, 110, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.beginPath();
+        ctx.ellipse(480 + Math.sin(t) * 40, 640, 220, 200, 0, Math.PI, 0);
+        ctx.fill();
+        ctx.fillStyle = '#fff';
+        ctx.font = '32px monospace';
+        ctx.fillText(new Date().toLocaleTimeString(), 24, 48);
+        requestAnimationFrame(draw);
+    };
+    draw();
+    return stream;
+}
+
+function toCameraError(err: unknown): CameraError {
+    const name = err instanceof DOMException ? err.name : '';
+    switch (name) {
+        case 'NotAllowedError':
+        case 'SecurityError':
+            return new CameraError("Camera access was blocked. Allow it in your browser's site settings, or upload a photo instead.");
+        case 'NotFoundError':
+        case 'OverconstrainedError':
+            return new CameraError('No camera was found.');
+        case 'NotReadableError':
+            return new CameraError('The camera is busy. Close other apps using it and try again.');
+        default:
+            return new CameraError("The camera couldn't be started.");
+    }
+}
+
+/**
+ * Starts a camera.
+ * @param deviceId The camera to use; by default the front-facing one where there's a choice.
+ * @returns The live stream. Stop it with {@link stopCamera} when done.
+ * @throws {CameraError} If there is no camera, or access is denied.
+ */
+export async function openCamera(deviceId?: string): Promise<MediaStream> {
+    if (USE_FAKE_CAMERA) {
+        const camera = FAKE_CAMERAS.find(c => c.deviceId === deviceId) ?? FAKE_CAMERAS[0];
+        return createFakeCameraStream(camera.color);
+    }
+    if (!navigator.mediaDevices?.getUserMedia) {
+        // Browsers only offer the camera on https pages (and localhost).
+        throw new CameraError('The camera is only available over a secure (https) connection.');
+    }
+    try {
+        return await navigator.mediaDevices.getUserMedia({
+            audio: false,
+            video: {
+                ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
+                width: { ideal: 1920 },
+                height: { ideal: 1440 },
+            },
+        });
+    } catch (err) {
+        throw toCameraError(err);
+    }
+}
+
+/**
+ * Lists the cameras the user can switch between. Labels are only filled in
+ * once the user has allowed camera access.
+ */
+export async function listCameras(): Promise<CameraDevice[]> {
+    if (USE_FAKE_CAMERA) {
+        return FAKE_CAMERAS.map(({ deviceId, label }) => ({ deviceId, label }));
+    }
+    try {
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        return devices
+            .filter(device => device.kind === 'videoinput')
+            .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Camera ${index + 1}` }));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Stops every track of a stream, turning the camera light off.
+ */
+export function stopCamera(stream: MediaStream): void {
+    stream.getTracks().forEach(track => track.stop());
+}
+
+/**
+ * Whether a stream comes from a camera facing the user, whose preview should be mirrored.
+ * Webcams that don't say which way they face are treated as front-facing.
+ */
+export function isFrontFacing(stream: MediaStream): boolean {
+    const facingMode = stream.getVideoTracks()[0]?.getSettings().facingMode;
+    return facingMode !== 'environment';
+}
+
+/**
+ * Grabs the current frame of a video, center-cropped to an aspect ratio.
+ * @param aspect Width divided by height.
+ * @param mirror Whether to flip the frame horizontally, to match a mirrored preview.
+ */
+export function captureFrame(video: HTMLVideoElement, aspect: number, mirror: boolean): HTMLCanvasElement {
+    const { videoWidth, videoHeight } = video;
+    const width = Math.min(videoWidth, videoHeight * aspect);
+    const height = width / aspect;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width);
+    canvas.height = Math.round(height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new CameraError("Your browser couldn't capture the photo.");
+    if (mirror) {
+        ctx.transform(-1, 0, 0, 1, canvas.width, 0);
+    }
+    ctx.drawImage(video, (videoWidth - width) / 2, (videoHeight - height) / 2, width, height, 0, 0, canvas.width, canvas.height);
+    return canvas;
+}
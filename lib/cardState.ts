@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { RefinementStep } from '../services/geminiService';
+import type { GenerationErrorInfo } from '../services/generationErrors';
+
+export type ImageStatus = 'pending' | 'done' | 'error';
+
+/** How many finished rounds each card remembers for undo. */
+export const MAX_HISTORY = 10;
+
+/** One finished round of takes. */
+export interface CardVersion {
+    variants: string[];
+    chosen: number;
+    /** Set when the round refined the previous version. */
+    instruction?: string;
+}
+
+/** A card's refinement conversation: where it started and each step since. */
+export interface Refinement {
+    baseUrl: string;
+    steps: RefinementStep[];
+}
+
+/** The state of one archetype's card on the board. */
+export interface GeneratedImage {
+    status: ImageStatus;
+    /** Successful takes, in the order they arrived. */
+    variants: string[];
+    /** Index into `variants` of the take the user picked. */
+    chosen: number;
+    /** Takes requested in the current round. */
+    takes: number;
+    /** Takes still developing. */
+    pendingVariants: number;
+    /** The most recent failure, if any take failed. */
+    error?: GenerationErrorInfo;
+    /** Set when a round failed outright and the card fell back to its previous version. */
+    keptPrevious?: boolean;
+    /** Finished rounds, oldest first. */
+    history: CardVersion[];
+    /** Index into `history` of the version on display. */
+    historyIndex: number;
+    /** The instruction the current round refines the previous version with. */
+    instruction?: string;
+    /** The conversation behind the latest refinements, kept as context for the next one. */
+    refinement?: Refinement;
+}
+
+/**
+ * Creates the state for a card that is about to develop `count` takes,
+ * carrying over the history of its previous rounds.
+ * @param instruction Set when the round refines the previous version.
+ */
+export function createPendingImage(count: number, previous?: GeneratedImage, instruction?: string): GeneratedImage {
+    return {
+        status: 'pending',
+        variants: [],
+        chosen: 0,
+        takes: count,
+        pendingVariants: count,
+        history: previous?.history ?? [],
+        historyIndex: previous?.historyIndex ?? -1,
+        instruction,
+        refinement: previous?.refinement,
+    };
+}
+
+function showVersion(image: GeneratedImage, historyIndex: number): GeneratedImage {
+    const { variants, chosen } = image.history[historyIndex];
+    return { ...image, status: 'done', variants, chosen, historyIndex, error: undefined, keptPrevious: false };
+}
+
+// Called when the last take of a round has settled.
+function finishRound(image: GeneratedImage): GeneratedImage {
+    if (image.variants.length > 0) {
+        // Starting a new round after an undo discards the redo branch, as in any editor.
+        const version: CardVersion = { variants: image.variants, chosen: image.chosen, instruction: image.instruction };
+        const history = [...image.history.slice(0, image.historyIndex + 1), version].slice(-MAX_HISTORY);
+        return { ...image, history, historyIndex: history.length - 1 };
+    }
+    if (image.historyIndex >= 0) {
+        // A cancelled round just goes back to the previous version; there is nothing to report.
+        if (image.error?.kind === 'cancelled') return showVersion(image, image.historyIndex);
+        // Never lose a good image to a failed regeneration.
+        return { ...showVersion(image, image.historyIndex), error: image.error, keptPrevious: true };
+    }
+    return { ...image, status: 'error' };
+}
+
+/**
+ * Records the outcome of one take. A card shows as done as soon as its first
+ * take arrives, and as an error only once every take has failed and there is
+ * no earlier version to fall back to.
+ * @param image The card's current state.
+ * @param result The take's image, or why it failed.
+ * @returns The updated state.
+ */
+export function applyVariantResult(image: GeneratedImage, result: { url: string } | { error: GenerationErrorInfo }): GeneratedImage {
+    const pendingVariants = Math.max(0, image.pendingVariants - 1);
+    const next: GeneratedImage = 'url' in result
+        ? { ...image, status: 'done', variants: [...image.variants, result.url], pendingVariants }
+        : { ...image, status: image.variants.length > 0 ? 'done' : 'pending', pendingVariants, error: result.error };
+    return pendingVariants === 0 ? finishRound(next) : next;
+}
+
+/**
+ * Marks a take as the chosen one.
+ */
+export function chooseVariant(image: GeneratedImage, index: number): GeneratedImage {
+    if (index < 0 || index >= image.variants.length) {
+        return image;
+    }
+    const history = image.pendingVariants === 0 && image.history[image.historyIndex]
+        ? image.history.map((version, i) => i === image.historyIndex ? { ...version, chosen: index } : version)
+        : image.history;
+    return { ...image, chosen: index, history };
+}
+
+/**
+ * Whether the card can step back to an earlier version.
+ */
+export function canUndo(image: GeneratedImage | undefined): boolean {
+    return Boolean(image && image.pendingVariants === 0 && image.historyIndex > 0);
+}
+
+/**
+ * Whether the card can step forward to a version it was undone from.
+ */
+export function canRedo(image: GeneratedImage | undefined): boolean {
+    return Boolean(image && image.pendingVariants === 0 && image.historyIndex < image.history.length - 1);
+}
+
+/**
+ * Shows the previous version.
+ */
+export function undo(image: GeneratedImage): GeneratedImage {
+    return canUndo(image) ? showVersion(image, image.historyIndex - 1) : image;
+}
+
+/**
+ * Shows the version that was undone.
+ */
+export function redo(image: GeneratedImage): GeneratedImage {
+    return canRedo(image) ? showVersion(image, image.historyIndex + 1) : image;
+}
+
+/**
+ * The URL of the chosen take, if the card has one.
+ */
+export function getChosenUrl(image: GeneratedImage | undefined): string | undefined {
+    return image?.variants[image.chosen] ?? image?.variants[0];
+}
+
+/**
+ * Picks up the refinement conversation that led to the take on display, or
+ * starts a new one from it. Stepping back with undo continues from that
+ * step; a shaken take starts afresh.
+ * @returns The conversation, or null if the card has nothing to refine.
+ */
+export function continueRefinement(image: GeneratedImage | undefined): Refinement | null {
+    const url = getChosenUrl(image);
+    if (!image || !url) return null;
+    const previous = image.refinement;
+    const index = previous ? previous.steps.findIndex(step => step.url === url) : -1;
+    if (previous && index >= 0) {
+        return { baseUrl: previous.baseUrl, steps: previous.steps.slice(0, index + 1) };
+    }
+    return { baseUrl: url, steps: [] };
+}
+
+/**
+ * Records the outcome of a refinement, adding the step to the card's
+ * conversation when it succeeded.
+ * @param image The card's current state.
+ * @param refinement The conversation the refinement continued.
+ * @param instruction What was asked.
+ * @param result The refined image, or why it failed.
+ * @returns The updated state.
+ */
+export function applyRefinementResult(image: GeneratedImage, refinement: Refinement, instruction: string, result: { url: string } | { error: GenerationErrorInfo }): GeneratedImage {
+    const next = applyVariantResult(image, result);
+    if (!('url' in result)) return next;
+    // Steps older than the undo history can't be returned to, so they are folded into the starting point.
+    const steps = [...refinement.steps, { instruction, url: result.url }];
+    const dropped = Math.max(0, steps.length - MAX_HISTORY);
+    return {
+        ...next,
+        refinement: {
+            baseUrl: dropped > 0 ? steps[dropped - 1].url : refinement.baseUrl,
+            steps: steps.slice(dropped),
+        },
+    };
+}
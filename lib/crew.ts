@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { MIN_CREW_SIZE, isCrewArchetype } from '../services/prompts';
+import type { Archetype } from './archetypeRegistry';
+import { cardKey } from './people';
+import type { Person } from './people';
+
+/** Crew shots belong to the whole batch rather than one person. */
+export const CREW_CARD_OWNER = 'crew';
+
+/**
+ * Who plays each role in each crew shot, keyed by archetype id. A null slot
+ * leaves that role out of the scene.
+ */
+export type CrewCast = Record<string, (string | null)[]>;
+
+/** What one card is developed from. */
+export interface CardSource {
+    /** See `cardKey`. */
+    key: string;
+    images: string[];
+    /** For a crew shot, narrowed to the roles that were cast. */
+    archetype: Archetype;
+}
+
+/**
+ * Returns who plays each of an archetype's roles. Until the user casts it,
+ * people fill the roles in batch order; people who have left the batch leave
+ * their role empty.
+ */
+export function getCastSlots(archetype: Archetype, people: Person[], cast: CrewCast): (string | null)[] {
+    const roles = archetype.roles ?? [];
+    const slots = cast[archetype.id] ?? people.map(person => person.id);
+    return roles.map((_, index) => {
+        const personId = slots[index];
+        return personId && people.some(person => person.id === personId) ? personId : null;
+    });
+}
+
+/**
+ * Puts one person in a role, taking them out of any other role in the same shot.
+ * @returns The updated cast.
+ */
+export function assignRole(cast: CrewCast, archetype: Archetype, people: Person[], roleIndex: number, personId: string | null): CrewCast {
+    const slots = getCastSlots(archetype, people, cast).map(slot => slot === personId ? null : slot);
+    slots[roleIndex] = personId;
+    return { ...cast, [archetype.id]: slots };
+}
+
+/**
+ * Resolves a crew shot to the people in it.
+ * @returns The members in role order and the archetype with only their roles,
+ *     or null while fewer than two roles are cast.
+ */
+export function castCrew(archetype: Archetype, people: Person[], cast: CrewCast): { members: Person[]; archetype: Archetype } | null {
+    const roles = archetype.roles ?? [];
+    const filled = getCastSlots(archetype, people, cast)
+        .map((personId, index) => ({ person: people.find(person => person.id === personId), role: roles[index] }))
+        .filter((slot): slot is { person: Person; role: string } => Boolean(slot.person));
+    if (filled.length < MIN_CREW_SIZE) return null;
+    return {
+        members: filled.map(slot => slot.person),
+        archetype: { ...archetype, roles: filled.map(slot => slot.role) },
+    };
+}
+
+/**
+ * Works out which card an archetype makes on a person's board. Solo
+ * archetypes are developed from the person's photo; a crew shot is shared by
+ * every board and developed from its cast's photos.
+ * @returns The source, or null for a crew shot that isn't cast yet.
+ */
+export function getCardSource(person: Person, archetype: Archetype, people: Person[], cast: CrewCast): CardSource | null {
+    if (!isCrewArchetype(archetype)) {
+        return { key: cardKey(person.id, archetype.id), images: [person.image], archetype };
+    }
+    const crew = castCrew(archetype, people, cast);
+    return crew && {
+        key: cardKey(CREW_CARD_OWNER, archetype.id),
+        images: crew.members.map(member => member.image),
+        archetype: crew.archetype,
+    };
+}
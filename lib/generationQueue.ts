@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Priority for jobs queued as part of a batch. */
+export const PRIORITY_BATCH = 0;
+/** Priority for jobs the user asked for directly (e.g. a shake); these jump ahead of the batch. */
+export const PRIORITY_USER = 10;
+
+export interface GenerationJob {
+    /** Identifies the job; a job whose key is already queued or running is not added twice. */
+    key: string;
+    /** Higher runs first; ties run in the order they were queued. */
+    priority?: number;
+    /**
+     * Does the work. The signal is aborted when the job is cancelled; a job
+     * cancelled before it started is still run once, with an aborted signal,
+     * so it can settle its own state the same way a running job would.
+     */
+    run: (signal: AbortSignal) => Promise<void>;
+}
+
+export interface QueueProgress {
+    pending: number;
+    running: number;
+    completed: number;
+    /** Jobs seen since the queue was last idle. */
+    total: number;
+}
+
+interface Entry {
+    job: GenerationJob;
+    priority: number;
+    order: number;
+    controller: AbortController;
+    promise: Promise<void>;
+    resolve: () => void;
+}
+
+export interface GenerationQueue {
+    /**
+     * Queues a job, or returns the existing one's completion if a job with the
+     * same key is already queued or running. Re-queuing a pending job with a
+     * higher priority moves it up.
+     * @returns A promise that settles when the job has finished or been cancelled.
+     */
+    enqueue(job: GenerationJob): Promise<void>;
+    /** Cancels the job with this key, whether it is queued or running. */
+    cancel(key: string): void;
+    /** Cancels every queued and running job. */
+    cancelAll(): void;
+    /** Whether a job with this key is queued or running. */
+    has(key: string): boolean;
+    setConcurrency(concurrency: number): void;
+    /**
+     * Subscribes to progress updates.
+     * @returns A function that removes the listener.
+     */
+    subscribe(listener: (progress: QueueProgress) => void): () => void;
+}
+
+/**
+ * Creates a priority queue that runs generation jobs with bounded concurrency.
+ * @param options The number of jobs allowed to run at once.
+ */
+export function createGenerationQueue({ concurrency = 2 }: { concurrency?: number } = {}): GenerationQueue {
+    let limit = Math.max(1, concurrency);
+    let order = 0;
+    let completed = 0;
+    let total = 0;
+    const pending: Entry[] = [];
+    const running = new Map<string, Entry>();
+    const listeners = new Set<(progress: QueueProgress) => void>();
+
+    const emit = () => {
+        const progress: QueueProgress = { pending: pending.length, running: running.size, completed, total };
+        listeners.forEach(listener => listener(progress));
+    };
+
+    const start = (entry: Entry) => {
+        const { key } = entry.job;
+        running.set(key, entry);
+        entry.job.run(entry.controller.signal)
+            .catch(err => console.error(`Generation job ${key} failed:`, err))
+            .finally(() => {
+                if (running.get(key) === entry) {
+                    running.delete(key);
+                }
+                completed++;
+                entry.resolve();
+                pump();
+            });
+    };
+
+    const pump = () => {
+        pending.sort((a, b) => b.priority - a.priority || a.order - b.order);
+        while (running.size < limit && pending.length > 0) {
+            start(pending.shift()!);
+        }
+        emit();
+    };
+
+    const findPending = (key: string) => pending.find(entry => entry.job.key === key);
+
+    const cancelPending = (entry: Entry) => {
+        pending.splice(pending.indexOf(entry), 1);
+        entry.controller.abort();
+        start(entry);
+    };
+
+    return {
+        enqueue(job) {
+            const priority = job.priority ?? PRIORITY_BATCH;
+            const existing = running.get(job.key) ?? findPending(job.key);
+            if (existing) {
+                if (priority > existing.priority && pending.includes(existing)) {
+                    existing.priority = priority;
+                    pump();
+                }
+                return existing.promise;
+            }
+
+            if (pending.length === 0 && running.size === 0) {
+                completed = 0;
+                total = 0;
+            }
+            total++;
+
+            let resolve!: () => void;
+            const promise = new Promise<void>(r => { resolve = r; });
+            pending.push({ job, priority, order: order++, controller: new AbortController(), promise, resolve });
+            pump();
+            return promise;
+        },
+        cancel(key) {
+            const entry = findPending(key);
+            if (entry) {
+                cancelPending(entry);
+                emit();
+                return;
+            }
+            running.get(key)?.controller.abort();
+        },
+        cancelAll() {
+            [...pending].forEach(cancelPending);
+            running.forEach(entry => entry.controller.abort());
+            emit();
+        },
+        has(key) {
+            return running.has(key) || Boolean(findPending(key));
+        },
+        setConcurrency(concurrency) {
+            limit = Math.max(1, concurrency);
+            pump();
+        },
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+}
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** An image payload in the shape the model APIs expect for inline data. */
+export interface InlineImage {
+    mimeType: string;
+    data: string;
+}
+
+// Helper function to load an image and return it as an HTMLImageElement
+export function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        // Setting crossOrigin is good practice for canvas operations, even with data URLs
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
+        img.src = src;
+    });
+}
+
+/**
+ * Splits a base64 image data URL into its MIME type and payload.
+ * @param imageDataUrl A data URL string (e.g., 'data:image/png;base64,...').
+ * @returns The inline image parts.
+ */
+export function parseImageDataUrl(imageDataUrl: string): InlineImage {
+    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
+    if (!match) {
+        throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
+    }
+    const [, mimeType, data] = match;
+    return { mimeType, data };
+}
+
+/**
+ * Builds a data URL from an inline image payload.
+ * @param image The inline image.
+ * @returns A data URL string.
+ */
+export function toImageDataUrl(image: InlineImage): string {
+    return `data:${image.mimeType};base64,${image.data}`;
+}
+
+/**
+ * Re-encodes an image as a JPEG no larger than `maxEdge` on its longest side.
+ * @param imageDataUrl A data URL of the image.
+ * @param maxEdge The longest edge allowed, in pixels.
+ * @returns A JPEG data URL.
+ */
+export async function shrinkImage(imageDataUrl: string, maxEdge: number): Promise<string> {
+    const img = await loadImage(imageDataUrl);
+    const scale = Math.min(1, maxEdge / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.85);
+}
+
+// JPEG segments that carry EXIF (GPS, device serials), XMP, maker notes and
+// comments. APP0 (JFIF) and APP2 (the colour profile) are kept.
+const isJpegMetadataMarker = (marker: number) =>
+    marker === 0xE1 || (marker >= 0xE3 && marker <= 0xEF) || marker === 0xFE;
+
+// PNG chunks with text, EXIF or timestamps; none are needed to draw the image.
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+
+function base64ToBytes(data: string): Uint8Array {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    // Chunked so large images don't overflow the argument limit.
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function stripJpeg(bytes: Uint8Array): Uint8Array[] | null {
+    if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) return null;
+    const kept = [bytes.subarray(0, 2)];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xFF) { // Fill byte before a marker.
+            offset += 1;
+            continue;
+        }
+        if (marker === 0xDA) break; // Start of scan; the rest is image data.
+        const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+        if (!isJpegMetadataMarker(marker)) {
+            kept.push(bytes.subarray(offset, end));
+        }
+        offset = end;
+    }
+    kept.push(bytes.subarray(offset));
+    return kept;
+}
+
+function stripPng(bytes: Uint8Array): Uint8Array[] | null {
+    const SIGNATURE_LENGTH = 8;
+    if (bytes[0] !== 0x89 || bytes[1] !== 0x50 || bytes[2] !== 0x4E || bytes[3] !== 0x47) return null;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const kept = [bytes.subarray(0, SIGNATURE_LENGTH)];
+    let offset = SIGNATURE_LENGTH;
+    while (offset + 12 <= bytes.length) {
+        // Length, type, data, CRC.
+        const end = offset + 12 + view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        if (!PNG_METADATA_CHUNKS.has(type)) {
+            kept.push(bytes.subarray(offset, end));
+        }
+        offset = end;
+    }
+    return kept;
+}
+
+/**
+ * Removes location, camera and other metadata from a JPEG or PNG without
+ * re-encoding the pixels. Other formats are returned unchanged.
+ * @param image The inline image.
+ * @returns The image without metadata, or the same object if there was none.
+ */
+export function stripImageMetadata(image: InlineImage): InlineImage {
+    const bytes = base64ToBytes(image.data);
+    const kept = image.mimeType === 'image/jpeg' ? stripJpeg(bytes)
+        : image.mimeType === 'image/png' ? stripPng(bytes)
+        : null;
+    if (!kept) return image;
+    const stripped = concatBytes(kept);
+    return stripped.length === bytes.length ? image : { mimeType: image.mimeType, data: bytesToBase64(stripped) };
+}
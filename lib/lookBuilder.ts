@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Archetype, ArchetypeDraft } from './archetypeRegistry';
+import type { ArchetypeField } from '../services/prompts';
+
+export type LookPartKey = 'outfit' | 'hair' | 'props' | 'setting' | 'style';
+
+export interface LookPart {
+    key: LookPartKey;
+    label: string;
+    /** The archetype fields this part takes from whichever archetype is picked. */
+    fields: ArchetypeField[];
+}
+
+/** The pickers of the look builder, in the order they are shown. */
+export const LOOK_PARTS: LookPart[] = [
+    { key: 'outfit', label: 'Outfit', fields: ['outfit'] },
+    { key: 'hair', label: 'Hairstyle', fields: ['hair'] },
+    { key: 'props', label: 'Props', fields: ['props'] },
+    { key: 'setting', label: 'Location', fields: ['setting'] },
+    { key: 'style', label: 'Photo style', fields: ['lighting', 'filmStock'] },
+];
+
+/** For each part, the id of the archetype it is taken from. Unpicked parts are left out of the look. */
+export type LookPicks = Partial<Record<LookPartKey, string>>;
+
+/**
+ * Lists the archetypes that have something to offer for a part.
+ * @returns The archetypes with at least one of the part's fields filled in.
+ */
+export function getLookOptions(archetypes: Archetype[], part: LookPart): Archetype[] {
+    return archetypes.filter(archetype => part.fields.some(field => archetype[field]?.trim()));
+}
+
+/**
+ * Assembles an archetype from parts of others.
+ * @param archetypes The archetypes the picks refer to.
+ * @param picks Which archetype each part comes from.
+ * @param name The name for the look.
+ * @param persona The theme pack's persona for looks, which may refer to the name as `{{name}}`.
+ * @returns A draft that can be generated directly or saved to the registry.
+ */
+export function buildLook(archetypes: Archetype[], picks: LookPicks, name: string, persona: string): ArchetypeDraft {
+    const look: ArchetypeDraft = {
+        name: name.trim(),
+        persona,
+    };
+    for (const part of LOOK_PARTS) {
+        const source = archetypes.find(archetype => archetype.id === picks[part.key]);
+        if (!source) continue;
+        for (const field of part.fields) {
+            look[field] = source[field];
+        }
+    }
+    return look;
+}
+
+/**
+ * Checks whether a look has anything picked at all.
+ */
+export function hasPicks(picks: LookPicks): boolean {
+    return LOOK_PARTS.some(part => picks[part.key]);
+}
@@ -0,0 +1,520 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LookbookStyle, ThemePack } from '../themes';
+
+export type LookbookFormatId = 'a4' | 'square' | 'story';
+export type LookbookTemplateId = 'scattered' | 'magazine' | 'contact-sheet' | 'wanted';
+
+/** An output size for the lookbook. */
+export interface LookbookFormat {
+    id: LookbookFormatId;
+    label: string;
+    width: number;
+    height: number;
+}
+
+/** One look on the page. */
+export interface LookbookCard {
+    name: string;
+    /** Missing for a look that didn't develop, which is drawn as a placeholder. */
+    img?: HTMLImageElement;
+}
+
+/** Everything a template draws from. */
+export interface LookbookPage {
+    ctx: CanvasRenderingContext2D;
+    width: number;
+    height: number;
+    /** Relative to an A4 page, so sizes can be written once for every format. */
+    scale: number;
+    cards: LookbookCard[];
+    pack: ThemePack;
+    /** A line under the title, such as whose lookbook it is. */
+    subtitle?: string;
+    /** Seeded, so a preview matches the page that is downloaded. */
+    random: () => number;
+    /** Counting from 1; the number is only drawn on sets of more than one page. */
+    pageNumber: number;
+    pageCount: number;
+    /** How many cards came on earlier pages, for numbering that runs across the set. */
+    offset: number;
+}
+
+/** A way of laying out the lookbook page. */
+export interface LookbookTemplate {
+    id: LookbookTemplateId;
+    label: string;
+    description: string;
+    /** The fonts the template draws with, as CSS font shorthands to load first. */
+    fonts(pack: ThemePack, scale: number): string[];
+    /** How many cards fit on one page; longer lists continue on further pages. */
+    perPage(format: LookbookFormat): number;
+    draw(page: LookbookPage): void;
+}
+
+export const LOOKBOOK_FORMATS: LookbookFormat[] = [
+    { id: 'a4', label: 'A4 portrait', width: 2480, height: 3508 },
+    { id: 'square', label: 'Square', width: 2400, height: 2400 },
+    { id: 'story', label: '9:16 story', width: 1440, height: 2560 },
+];
+
+// The A4 page the sizes below were designed on.
+const BASE_WIDTH = 2480;
+const BASE_HEIGHT = 3508;
+
+// A deterministic stand-in for Math.random.
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// The pack's background, with a subtle concrete texture if it asks for grain.
+export function drawBackground(ctx: CanvasRenderingContext2D, width: number, height: number, style: LookbookStyle, random: () => number = Math.random) {
+    ctx.fillStyle = style.background;
+    ctx.fillRect(0, 0, width, height);
+    if (style.grain) {
+        const specks = Math.round(width * height / 58);
+        for (let i = 0; i < specks; i++) {
+            const color = Math.floor(random() * 50) + 10;
+            ctx.fillStyle = `rgba(${color},${color},${color},${random() * 0.5})`;
+            ctx.fillRect(random() * width, random() * height, 2, 2);
+        }
+    }
+}
+
+// Draws an image scaled to fill a box, cropping the overflow from its centre.
+export function drawCover(ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, width: number, height: number) {
+    const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+    const sourceWidth = width / scale;
+    const sourceHeight = height / scale;
+    ctx.drawImage(img, (img.naturalWidth - sourceWidth) / 2, (img.naturalHeight - sourceHeight) / 2, sourceWidth, sourceHeight, x, y, width, height);
+}
+
+// Stands in for a look that didn't develop.
+function drawPlaceholder(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, font: string) {
+    ctx.save();
+    ctx.fillStyle = '#262626';
+    ctx.fillRect(x, y, width, height);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+    ctx.lineWidth = Math.max(2, width / 150);
+    ctx.setLineDash([width / 30, width / 40]);
+    ctx.strokeRect(x + width * 0.05, y + width * 0.05, width * 0.9, height - width * 0.1);
+    ctx.fillStyle = '#a3a3a3';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `${Math.max(14, width / 12)}px ${font}`;
+    ctx.fillText("Didn't develop", x + width / 2, y + height / 2, width * 0.8);
+    ctx.restore();
+}
+
+// Fills a box with a card's image, or its placeholder.
+function drawCardCover(ctx: CanvasRenderingContext2D, { img }: LookbookCard, x: number, y: number, width: number, height: number, font: string) {
+    if (img) {
+        drawCover(ctx, img, x, y, width, height);
+    } else {
+        drawPlaceholder(ctx, x, y, width, height, font);
+    }
+}
+
+// The page number, centred on a baseline `bottom` above the foot of the page.
+function drawPageNumber({ ctx, width, height, pageNumber, pageCount }: LookbookPage, color: string, font: string, bottom: number) {
+    if (pageCount <= 1) return;
+    ctx.save();
+    ctx.fillStyle = color;
+    ctx.font = font;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText(`${pageNumber} / ${pageCount}`, width / 2, height - bottom);
+    ctx.restore();
+}
+
+/**
+ * Picks the column count that gives the largest cells for `count` items in
+ * an area.
+ * @param aspect Each cell's height over its width.
+ */
+function fitGrid(count: number, areaWidth: number, areaHeight: number, aspect: number, gap: number) {
+    let best = { cols: 1, rows: Math.max(1, count), cellWidth: 0, cellHeight: 0 };
+    for (let cols = 1; cols <= Math.max(1, count); cols++) {
+        const rows = Math.max(1, Math.ceil(count / cols));
+        const cellWidth = Math.min((areaWidth - gap * (cols - 1)) / cols, (areaHeight - gap * (rows - 1)) / rows / aspect);
+        if (cellWidth > best.cellWidth) {
+            best = { cols, rows, cellWidth, cellHeight: cellWidth * aspect };
+        }
+    }
+    return best;
+}
+
+// Glowing title lines, centred, as the lookbook has always had them.
+function drawNeonTitle({ ctx, width, scale, pack, subtitle }: LookbookPage, top: number) {
+    const { lookbook: style, fonts } = pack;
+    const lineHeight = 220 * scale;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${220 * scale}px ${fonts.display}`;
+    style.title.forEach((line, index) => {
+        ctx.shadowColor = line.color;
+        ctx.shadowBlur = 40 * scale;
+        ctx.fillStyle = line.color;
+        ctx.fillText(line.text, width / 2, top + index * lineHeight, width - 200 * scale);
+    });
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+
+    if (subtitle) {
+        ctx.fillStyle = style.title[style.title.length - 1]?.color ?? '#fff';
+        ctx.font = `${100 * scale}px ${fonts.caption}`;
+        ctx.fillText(subtitle, width / 2, top + style.title.length * lineHeight - 20 * scale, width - 200 * scale);
+    }
+}
+
+// The original lookbook: taped polaroids scattered under a neon title.
+function drawScattered(page: LookbookPage) {
+    const { ctx, width, height, scale, cards, pack, subtitle, random } = page;
+    const { lookbook: style, fonts } = pack;
+    drawBackground(ctx, width, height, style, random);
+    drawNeonTitle(page, 180 * scale);
+
+    // Six to a page: three rows of two, or two rows of three on wide formats.
+    const cols = width >= height ? 3 : 2;
+    const grid = { cols, rows: cols === 2 ? 3 : 2, padding: 100 * scale };
+    const contentTopMargin = (subtitle ? 670 : 550) * scale; // Space for the header
+    const contentHeight = height - contentTopMargin - grid.padding * 2;
+    const cellWidth = (width - grid.padding * (grid.cols + 1)) / grid.cols;
+
+    // Each row overlaps the one below by a fifth, for the scattered look, and the last one still fits.
+    const photoWidth = Math.min(cellWidth * 0.9, contentHeight / (0.8 * (grid.rows - 1) + 1) / 1.25);
+    const photoHeight = photoWidth * 1.25; // A bit taller than a standard polaroid
+    const rowPitch = grid.rows > 1 ? (contentHeight - photoHeight) / (grid.rows - 1) : 0;
+    // Frame, caption and tape were drawn for a 980px photo.
+    const photoScale = photoWidth / 980;
+
+    cards.forEach(({ name, img }, index) => {
+        const row = Math.floor(index / grid.cols);
+        const col = index % grid.cols;
+
+        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - photoWidth) / 2;
+        const y = contentTopMargin + grid.padding + rowPitch * row;
+
+        ctx.save();
+        ctx.translate(x + photoWidth / 2, y + photoHeight / 2);
+
+        // Apply a stronger, random rotation for a scattered look
+        const rotation = (random() - 0.5) * 0.15;
+        ctx.rotate(rotation);
+
+        // Draw a harsh shadow
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.7)';
+        ctx.shadowBlur = 35 * photoScale;
+        ctx.shadowOffsetX = 15 * photoScale;
+        ctx.shadowOffsetY = 20 * photoScale;
+
+        // Draw the white photo border
+        ctx.fillStyle = style.paper;
+        ctx.fillRect(-photoWidth / 2, -photoHeight / 2, photoWidth, photoHeight);
+
+        ctx.shadowColor = 'transparent';
+
+        const inset = 35 * photoScale;
+        const imageContainerWidth = photoWidth - inset * 2;
+        const imageContainerHeight = photoHeight - inset * 2 - 100 * photoScale; // Leave space for caption
+
+        if (img) {
+            const aspectRatio = img.naturalWidth / img.naturalHeight;
+            let drawWidth = imageContainerWidth;
+            let drawHeight = drawWidth / aspectRatio;
+
+            if (drawHeight > imageContainerHeight) {
+                drawHeight = imageContainerHeight;
+                drawWidth = drawHeight * aspectRatio;
+            }
+
+            const imgX = -drawWidth / 2;
+            const imgY = -photoHeight / 2 + inset + (imageContainerHeight - drawHeight) / 2;
+
+            ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
+        } else {
+            drawPlaceholder(ctx, -imageContainerWidth / 2, -photoHeight / 2 + inset, imageContainerWidth, imageContainerHeight, fonts.caption);
+        }
+
+        // Draw the handwritten caption
+        ctx.fillStyle = style.captionColor;
+        ctx.font = `${80 * photoScale}px ${fonts.caption}`;
+        ctx.textAlign = 'center';
+        const captionY = (photoHeight / 2) - 60 * photoScale;
+        ctx.fillText(name, 0, captionY, photoWidth - inset * 2);
+
+        // Draw "tape" on corners
+        ctx.fillStyle = 'rgba(255, 255, 180, 0.6)';
+        ctx.rotate(0.8); // Rotate the tape slightly differently
+        ctx.fillRect(-photoWidth / 2 - 20 * photoScale, -photoHeight / 2 - 50 * photoScale, 180 * photoScale, 50 * photoScale);
+        ctx.rotate(-1.6);
+        ctx.fillRect(photoWidth / 2 - 160 * photoScale, photoHeight / 2, 180 * photoScale, 50 * photoScale);
+
+        ctx.restore();
+    });
+
+    drawPageNumber(page, style.title[style.title.length - 1]?.color ?? '#fff', `${60 * scale}px ${fonts.caption}`, 40 * scale);
+}
+
+// A full-bleed cover star under a masthead, with the other looks as cover lines.
+function drawMagazine(page: LookbookPage) {
+    const { ctx, width, height, scale, cards, pack, subtitle } = page;
+    const { lookbook: style, fonts } = pack;
+    const [star, ...rest] = cards;
+    const accent = style.title[0]?.color ?? '#fff';
+    const margin = 90 * scale;
+
+    ctx.fillStyle = style.background;
+    ctx.fillRect(0, 0, width, height);
+    if (star) {
+        drawCardCover(ctx, star, 0, 0, width, height, fonts.caption);
+    }
+
+    // Darken the top and bottom so the type reads over any photo.
+    const top = ctx.createLinearGradient(0, 0, 0, height * 0.3);
+    top.addColorStop(0, 'rgba(0, 0, 0, 0.65)');
+    top.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = top;
+    ctx.fillRect(0, 0, width, height * 0.3);
+    const bottom = ctx.createLinearGradient(0, height * 0.5, 0, height);
+    bottom.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    bottom.addColorStop(1, 'rgba(0, 0, 0, 0.8)');
+    ctx.fillStyle = bottom;
+    ctx.fillRect(0, height * 0.5, width, height * 0.5);
+
+    // The masthead runs the width of the cover.
+    const masthead = style.title.map(line => line.text).join(' ');
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.font = `bold ${380 * scale}px ${fonts.display}`;
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = 30 * scale;
+    ctx.fillStyle = accent;
+    ctx.fillText(masthead, width / 2, margin, width - margin * 2);
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+
+    ctx.font = `${70 * scale}px ${fonts.caption}`;
+    ctx.fillStyle = '#fff';
+    ctx.fillText(subtitle ? `The ${subtitle} issue` : `The ${pack.name} issue`, width / 2, margin + 420 * scale, width - margin * 2);
+
+    // The other looks as a strip of small prints along the bottom.
+    const stripHeight = rest.length > 0 ? height * 0.2 : 0;
+    const grid = fitGrid(rest.length, width - margin * 2, stripHeight, 4 / 3, 30 * scale);
+    const stripTop = height - margin - grid.rows * grid.cellHeight - (grid.rows - 1) * 30 * scale;
+    rest.forEach((card, index) => {
+        const row = Math.floor(index / grid.cols);
+        const col = index % grid.cols;
+        const x = margin + col * (grid.cellWidth + 30 * scale);
+        const y = stripTop + row * (grid.cellHeight + 30 * scale);
+        const border = 10 * scale;
+        ctx.fillStyle = style.paper;
+        ctx.fillRect(x - border, y - border, grid.cellWidth + border * 2, grid.cellHeight + border * 2);
+        drawCardCover(ctx, card, x, y, grid.cellWidth, grid.cellHeight, fonts.caption);
+    });
+
+    // Cover lines: the star's look big, then everything else inside.
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+    let lineY = (rest.length > 0 ? stripTop - 60 * scale : height - margin) - rest.length * 80 * scale;
+    if (star) {
+        ctx.font = `bold ${200 * scale}px ${fonts.display}`;
+        ctx.fillStyle = accent;
+        ctx.fillText(star.name, margin, lineY - 40 * scale, width - margin * 2);
+    }
+    ctx.font = `${64 * scale}px ${fonts.caption}`;
+    ctx.fillStyle = '#fff';
+    rest.forEach(({ name }) => {
+        lineY += 80 * scale;
+        ctx.fillText(`+ ${name}`, margin, lineY, width - margin * 2);
+    });
+
+    drawPageNumber(page, '#fff', `${50 * scale}px ${fonts.caption}`, 30 * scale);
+}
+
+// Frames on strips of film, numbered like a darkroom contact print.
+function drawContactSheet(page: LookbookPage) {
+    const { ctx, width, height, scale, cards, pack, subtitle, offset } = page;
+    const { lookbook: style, fonts } = pack;
+    const margin = 120 * scale;
+    const headerHeight = 220 * scale;
+    const gap = 24 * scale;
+
+    ctx.fillStyle = style.paper;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = style.captionColor;
+    ctx.font = `${80 * scale}px ${fonts.caption}`;
+    const heading = [style.title.map(line => line.text).join(' '), subtitle].filter(Boolean).join(' — ');
+    ctx.fillText(heading, margin, margin + headerHeight / 3, width - margin * 2);
+
+    // Each frame sits on film with sprocket holes above and a numbered edge below.
+    const frameAspect = 4 / 3;
+    const bandRatio = 0.16;
+    const grid = fitGrid(cards.length, width - margin * 2, height - margin * 2 - headerHeight, frameAspect + bandRatio * 2, gap);
+    const frameWidth = grid.cellWidth;
+    const frameHeight = frameWidth * frameAspect;
+    const band = frameWidth * bandRatio;
+    const stripWidth = grid.cols * frameWidth + (grid.cols - 1) * gap;
+    const left = (width - stripWidth) / 2;
+
+    for (let row = 0; row < grid.rows; row++) {
+        const y = margin + headerHeight + row * (grid.cellHeight + gap);
+        ctx.fillStyle = '#151310';
+        ctx.fillRect(left - gap, y, stripWidth + gap * 2, grid.cellHeight);
+        // Sprocket holes along the top edge.
+        const hole = band * 0.35;
+        ctx.fillStyle = style.paper;
+        for (let x = left; x < left + stripWidth - hole; x += hole * 2.2) {
+            ctx.fillRect(x, y + (band - hole) / 2, hole, hole);
+        }
+    }
+
+    ctx.font = `${Math.max(18, band * 0.4)}px ${fonts.caption}`;
+    cards.forEach((card, index) => {
+        const row = Math.floor(index / grid.cols);
+        const col = index % grid.cols;
+        const x = left + col * (frameWidth + gap);
+        const y = margin + headerHeight + row * (grid.cellHeight + gap) + band;
+        drawCardCover(ctx, card, x, y, frameWidth, frameHeight, fonts.caption);
+
+        ctx.fillStyle = '#f59e0b';
+        ctx.textAlign = 'left';
+        ctx.fillText(`${offset + index + 1}A`, x, y + frameHeight + band / 2, frameWidth * 0.25);
+        ctx.textAlign = 'right';
+        ctx.fillText(card.name, x + frameWidth, y + frameHeight + band / 2, frameWidth * 0.7);
+    });
+
+    // The first frame of the set gets the grease-pencil pick.
+    if (cards.length > 0 && offset === 0) {
+        const x = left;
+        const y = margin + headerHeight + band;
+        ctx.strokeStyle = '#dc2626';
+        ctx.lineWidth = 14 * scale;
+        ctx.strokeRect(x - 10 * scale, y - 10 * scale, frameWidth + 20 * scale, frameHeight + 20 * scale);
+    }
+
+    drawPageNumber(page, style.captionColor, `${60 * scale}px ${fonts.caption}`, margin / 2);
+}
+
+// A frontier-town poster with every look as a mugshot.
+const POSTER_INK = '#3b2a1a';
+const POSTER_PAPER = '#e8d9b0';
+const POSTER_FONT = "Georgia, 'Times New Roman', serif";
+
+function drawWanted(page: LookbookPage) {
+    const { ctx, width, height, scale, cards, pack, subtitle, random } = page;
+    const margin = 110 * scale;
+    drawBackground(ctx, width, height, { ...pack.lookbook, background: POSTER_PAPER, grain: true }, random);
+
+    ctx.strokeStyle = POSTER_INK;
+    ctx.lineWidth = 12 * scale;
+    ctx.strokeRect(margin / 2, margin / 2, width - margin, height - margin);
+    ctx.lineWidth = 4 * scale;
+    ctx.strokeRect(margin / 2 + 24 * scale, margin / 2 + 24 * scale, width - margin - 48 * scale, height - margin - 48 * scale);
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = POSTER_INK;
+    ctx.font = `bold ${420 * scale}px ${POSTER_FONT}`;
+    ctx.fillText('WANTED', width / 2, margin + 20 * scale, width - margin * 3);
+    ctx.font = `bold ${110 * scale}px ${POSTER_FONT}`;
+    ctx.fillText(subtitle ? subtitle.toUpperCase() : 'DEAD OR ALIVE', width / 2, margin + 480 * scale, width - margin * 3);
+
+    const footerHeight = 380 * scale;
+    const top = margin + 680 * scale;
+    const gap = 60 * scale;
+    // Below each mugshot, a line for the alias.
+    const grid = fitGrid(cards.length, width - margin * 3, height - top - footerHeight - margin, 4 / 3 + 0.2, gap);
+    const photoWidth = grid.cellWidth;
+    const photoHeight = photoWidth * 4 / 3;
+    const rowWidth = (count: number) => count * photoWidth + (count - 1) * gap;
+
+    ctx.font = `bold ${Math.min(70 * scale, photoWidth / 10)}px ${POSTER_FONT}`;
+    cards.forEach((card, index) => {
+        const row = Math.floor(index / grid.cols);
+        const col = index % grid.cols;
+        // The last row is centred when it isn't full.
+        const inRow = Math.min(grid.cols, cards.length - row * grid.cols);
+        const x = (width - rowWidth(inRow)) / 2 + col * (photoWidth + gap);
+        const y = top + row * (grid.cellHeight + gap);
+        ctx.filter = 'sepia(0.8) contrast(1.1)';
+        drawCardCover(ctx, card, x, y, photoWidth, photoHeight, POSTER_FONT);
+        ctx.filter = 'none';
+        ctx.lineWidth = 6 * scale;
+        ctx.strokeRect(x, y, photoWidth, photoHeight);
+        ctx.fillText(`ALIAS: ${card.name.toUpperCase()}`, x + photoWidth / 2, y + photoHeight + photoWidth * 0.05, photoWidth);
+    });
+
+    ctx.textBaseline = 'alphabetic';
+    ctx.font = `bold ${240 * scale}px ${POSTER_FONT}`;
+    ctx.fillText('$10,000 REWARD', width / 2, height - margin - 120 * scale, width - margin * 3);
+
+    drawPageNumber(page, POSTER_INK, `bold ${50 * scale}px ${POSTER_FONT}`, 100 * scale);
+}
+
+export const LOOKBOOK_TEMPLATES: LookbookTemplate[] = [
+    {
+        id: 'scattered',
+        label: 'Scattered polaroids',
+        description: 'Taped polaroids under a neon title.',
+        fonts: (pack, scale) => [`bold ${220 * scale}px ${pack.fonts.display}`, `${100 * scale}px ${pack.fonts.caption}`],
+        perPage: () => 6,
+        draw: drawScattered,
+    },
+    {
+        id: 'magazine',
+        label: 'Magazine cover',
+        description: 'A cover star on each page, the rest as cover lines.',
+        fonts: (pack, scale) => [`bold ${380 * scale}px ${pack.fonts.display}`, `${70 * scale}px ${pack.fonts.caption}`],
+        perPage: () => 5,
+        draw: drawMagazine,
+    },
+    {
+        id: 'contact-sheet',
+        label: 'Contact sheet',
+        description: 'Numbered frames on strips of film.',
+        fonts: (pack, scale) => [`${80 * scale}px ${pack.fonts.caption}`],
+        perPage: format => format.width < format.height * 0.6 ? 8 : 12,
+        draw: drawContactSheet,
+    },
+    {
+        id: 'wanted',
+        label: 'Wanted poster',
+        description: 'Every look as a sepia mugshot.',
+        fonts: () => [],
+        perPage: () => 4,
+        draw: drawWanted,
+    },
+];
+
+/**
+ * Looks up an output format, falling back to A4 for unknown ids such as
+ * ones saved by a newer version.
+ */
+export function getLookbookFormat(id: string): LookbookFormat {
+    return LOOKBOOK_FORMATS.find(format => format.id === id) ?? LOOKBOOK_FORMATS[0];
+}
+
+/**
+ * Looks up a template, falling back to the scattered polaroids.
+ */
+export function getLookbookTemplate(id: string): LookbookTemplate {
+    return LOOKBOOK_TEMPLATES.find(template => template.id === id) ?? LOOKBOOK_TEMPLATES[0];
+}
+
+/** The scale of a format relative to the A4 page the templates were drawn on. */
+export function getLookbookScale(format: LookbookFormat): number {
+    return Math.min(format.width / BASE_WIDTH, format.height / BASE_HEIGHT);
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './imageUtils';
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    return [canvas, ctx];
+}
+
+/**
+ * Checks whether anything is left painted on a canvas, after the eraser too.
+ * @param painted The canvas holding the strokes.
+ */
+export function hasPaint(painted: HTMLCanvasElement): boolean {
+    const ctx = painted.getContext('2d');
+    if (!ctx || painted.width === 0 || painted.height === 0) return false;
+    const pixels = ctx.getImageData(0, 0, painted.width, painted.height).data;
+    for (let i = 3; i < pixels.length; i += 4) {
+        if (pixels[i] > 0) return true;
+    }
+    return false;
+}
+
+/**
+ * Turns strokes painted on a transparent canvas, in any colour, into the
+ * mask the model expects: white where painted, black elsewhere.
+ * @param painted The canvas holding the strokes, at the image's size.
+ * @returns A PNG data URL of the mask.
+ */
+export function createMaskImage(painted: HTMLCanvasElement): string {
+    const [strokes, strokesCtx] = createCanvas(painted.width, painted.height);
+    strokesCtx.drawImage(painted, 0, 0);
+    strokesCtx.globalCompositeOperation = 'source-in';
+    strokesCtx.fillStyle = '#fff';
+    strokesCtx.fillRect(0, 0, strokes.width, strokes.height);
+
+    const [mask, ctx] = createCanvas(painted.width, painted.height);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.drawImage(strokes, 0, 0);
+    return mask.toDataURL('image/png');
+}
+
+/**
+ * Puts the masked area of an edited image back onto the original, so every
+ * pixel outside the mask stays exactly as it was. The edited image is
+ * stretched to the original's size first, as the model may answer at a
+ * different resolution.
+ * @param originalUrl A data URL of the image that was edited.
+ * @param editedUrl A data URL of the model's edit.
+ * @param maskUrl A data URL of the mask, white where the edit applies.
+ * @returns A PNG data URL of the composite; PNG, so the untouched pixels aren't re-compressed.
+ */
+export async function compositeMasked(originalUrl: string, editedUrl: string, maskUrl: string): Promise<string> {
+    const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskUrl)]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+
+    // The mask's brightness becomes the edited image's opacity; soft brush edges blend.
+    const [, maskCtx] = createCanvas(width, height);
+    maskCtx.drawImage(mask, 0, 0, width, height);
+    const alpha = maskCtx.getImageData(0, 0, width, height).data;
+
+    const [patch, patchCtx] = createCanvas(width, height);
+    patchCtx.drawImage(edited, 0, 0, width, height);
+    const pixels = patchCtx.getImageData(0, 0, width, height);
+    for (let i = 3; i < pixels.data.length; i += 4) {
+        pixels.data[i] = alpha[i - 3];
+    }
+    patchCtx.putImageData(pixels, 0, 0);
+
+    const [result, ctx] = createCanvas(width, height);
+    ctx.drawImage(original, 0, 0);
+    ctx.drawImage(patch, 0, 0);
+    return result.toDataURL('image/png');
+}
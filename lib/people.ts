@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ProcessedPhoto } from './photoUpload';
+
+/** How many people one batch can hold. */
+export const MAX_PEOPLE = 8;
+
+export type PhotoDetails = Omit<ProcessedPhoto, 'dataUrl'>;
+
+/** Someone in the batch, with the photo their board is developed from. */
+export interface Person {
+    id: string;
+    name: string;
+    image: string;
+    photo: PhotoDetails | null;
+}
+
+/**
+ * Identifies one card: an archetype developed from one person's photo.
+ */
+export const cardKey = (personId: string, archetypeId: string) => `${personId}/${archetypeId}`;
+
+/**
+ * Suggests a name for a person from their photo's file name, falling back to
+ * "Person N" for camera shots and names like "IMG_1234".
+ * @param fileName The file name, if the photo came from a file.
+ * @param taken Names already in the batch.
+ */
+export function suggestPersonName(fileName: string | undefined, taken: string[]): string {
+    const base = fileName?.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() ?? '';
+    const looksGenerated = !base || /^(img|dsc|pxl|photo|image|pasted image)\b|\d{3,}/i.test(base);
+    if (!looksGenerated && !taken.includes(base)) return base.slice(0, 30);
+
+    let n = taken.length + 1;
+    while (taken.includes(`Person ${n}`)) n++;
+    return `Person ${n}`;
+}
+
+/**
+ * Creates a person from a finished photo.
+ */
+export function createPerson(name: string, { dataUrl, ...photo }: ProcessedPhoto): Person {
+    return {
+        id: `person-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        name,
+        image: dataUrl,
+        photo,
+    };
+}
+
+/**
+ * Turns a person's name into something safe for a file name.
+ */
+export const personSlug = (person: Person) =>
+    person.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || person.id;
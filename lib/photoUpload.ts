@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './imageUtils';
+
+/** Largest edge kept while cropping, so the crop step has detail to work with. */
+const WORKING_MAX_EDGE = 4096;
+/** Largest edge of the on-screen copy shown in the crop step. */
+const PREVIEW_MAX_EDGE = 1024;
+const JPEG_QUALITY = 0.9;
+/** Width divided by height of the photo area of a polaroid card. */
+export const PORTRAIT_ASPECT = 3 / 4;
+
+/** Largest file accepted, before it is downsized. */
+export const MAX_PHOTO_BYTES = 30 * 1024 * 1024;
+
+/** A problem with a chosen photo, with a message fit to show the user. */
+export class UploadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UploadError';
+    }
+}
+
+/** A region of the photo, in pixels of the upright working copy. */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** A photo decoded and turned upright, waiting for the crop step. */
+export interface PreparedPhoto {
+    /** The upright photo, capped at a generous working size. */
+    canvas: HTMLCanvasElement;
+    /** A smaller copy for showing on screen. */
+    previewUrl: string;
+    /** The centre of the largest face found, if the browser can detect faces. */
+    focus: { x: number; y: number } | null;
+    originalType: string;
+    originalBytes: number;
+}
+
+/** The photo as it will be sent. */
+export interface ProcessedPhoto {
+    dataUrl: string;
+    width: number;
+    height: number;
+    /** Size of the encoded image, not counting base64 overhead. */
+    bytes: number;
+}
+
+// The Shape Detection API isn't in TypeScript's DOM types yet.
+interface DetectedFace {
+    boundingBox: DOMRectReadOnly;
+}
+interface FaceDetectorLike {
+    detect(image: CanvasImageSource): Promise<DetectedFace[]>;
+}
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+/**
+ * Decodes a file. Both paths leave it upright: bitmaps and <img> elements
+ * apply EXIF orientation by default.
+ */
+async function decode(file: File): Promise<{ image: CanvasImageSource; width: number; height: number }> {
+    if (typeof createImageBitmap === 'function') {
+        try {
+            const bitmap = await createImageBitmap(file);
+            return { image: bitmap, width: bitmap.width, height: bitmap.height };
+        } catch {
+            // Fall through to an <img>, which some browsers decode more formats with.
+        }
+    }
+    const url = URL.createObjectURL(file);
+    try {
+        const img = await loadImage(url);
+        return { image: img, width: img.naturalWidth, height: img.naturalHeight };
+    } catch {
+        const isHeic = /hei[cf]/i.test(file.type) || /\.hei[cf]$/i.test(file.name);
+        throw new UploadError(isHeic
+            ? "This browser can't open HEIC photos. Try a JPEG or PNG, or set your camera to \"Most Compatible\"."
+            : "That file couldn't be opened as a photo.");
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+/**
+ * Draws an image scaled onto a new canvas.
+ * @param scale How much to shrink the image by.
+ */
+function drawScaled(image: CanvasImageSource, width: number, height: number, scale: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new UploadError("Your browser couldn't process the photo.");
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+}
+
+function scaleToFit(canvas: HTMLCanvasElement, maxEdge: number): HTMLCanvasElement {
+    const scale = Math.min(1, maxEdge / Math.max(canvas.width, canvas.height));
+    return scale < 1 ? drawScaled(canvas, canvas.width, canvas.height, scale) : canvas;
+}
+
+async function findFace(canvas: HTMLCanvasElement): Promise<{ x: number; y: number } | null> {
+    const FaceDetector = (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+    if (!FaceDetector) return null;
+    try {
+        const faces = await new FaceDetector({ fastMode: true, maxDetectedFaces: 5 }).detect(canvas);
+        const largest = faces.reduce<DetectedFace | null>((best, face) =>
+            !best || face.boundingBox.width * face.boundingBox.height > best.boundingBox.width * best.boundingBox.height ? face : best, null);
+        return largest
+            ? { x: largest.boundingBox.x + largest.boundingBox.width / 2, y: largest.boundingBox.y + largest.boundingBox.height / 2 }
+            : null;
+    } catch {
+        // Face detection is a nicety; fall back to the usual framing.
+        return null;
+    }
+}
+
+/**
+ * Checks that a file is worth trying to open as a photo.
+ * @throws {UploadError} If it isn't an image or is too large.
+ */
+export function checkPhotoFile(file: File): void {
+    if (file.type && !file.type.startsWith('image/')) {
+        throw new UploadError(`"${file.name}" isn't a photo. Try a JPEG, PNG or WebP image.`);
+    }
+    if (file.size === 0) {
+        throw new UploadError(`"${file.name}" is empty.`);
+    }
+    if (file.size > MAX_PHOTO_BYTES) {
+        throw new UploadError(`"${file.name}" is ${formatBytes(file.size)}; photos can be up to ${formatBytes(MAX_PHOTO_BYTES)}.`);
+    }
+}
+
+/**
+ * Downloads an image from a web address or data URL, such as one dragged in
+ * from another tab.
+ * @throws {UploadError} If it can't be fetched or isn't an image.
+ */
+export async function fetchPhoto(url: string): Promise<File> {
+    if (!/^(https?:|data:image\/)/i.test(url)) {
+        throw new UploadError("That link isn't an image address.");
+    }
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch {
+        // Most often the other site doesn't allow its images to be read by other pages.
+        throw new UploadError("That image couldn't be downloaded. Save it to your device and upload the file instead.");
+    }
+    if (!response.ok) {
+        throw new UploadError(`That image couldn't be downloaded (HTTP ${response.status}).`);
+    }
+    const blob = await response.blob();
+    const name = url.startsWith('data:') ? 'pasted-image' : decodeURIComponent(new URL(url).pathname.split('/').pop() || 'image');
+    const file = new File([blob], name, { type: blob.type });
+    checkPhotoFile(file);
+    return file;
+}
+
+/**
+ * Decodes a chosen photo in any format the browser can read, upright
+ * according to its EXIF orientation, and looks for a face to centre the crop on.
+ * @throws {UploadError} If the file isn't an image the browser can open, or is too large.
+ */
+export async function preparePhoto(file: File): Promise<PreparedPhoto> {
+    checkPhotoFile(file);
+    const { image, width, height } = await decode(file);
+    const canvas = drawScaled(image, width, height, Math.min(1, WORKING_MAX_EDGE / Math.max(width, height)));
+    if (image instanceof ImageBitmap) image.close();
+
+    return {
+        canvas,
+        previewUrl: scaleToFit(canvas, PREVIEW_MAX_EDGE).toDataURL('image/jpeg', 0.8),
+        focus: await findFace(canvas),
+        originalType: file.type || 'unknown',
+        originalBytes: file.size,
+    };
+}
+
+/**
+ * Works out the largest crop of an aspect ratio that fits the photo, centred
+ * on the focus point where possible.
+ * @param aspect Width divided by height.
+ * @param focus The point to centre on; without one, the upper middle, where faces usually are.
+ */
+export function fitCrop(width: number, height: number, aspect: number, focus: { x: number; y: number } | null): CropRect {
+    const cropWidth = Math.min(width, height * aspect);
+    const cropHeight = cropWidth / aspect;
+    const center = focus ?? { x: width / 2, y: height * 0.4 };
+    return {
+        x: Math.round(Math.min(Math.max(center.x - cropWidth / 2, 0), width - cropWidth)),
+        y: Math.round(Math.min(Math.max(center.y - cropHeight / 2, 0), height - cropHeight)),
+        width: Math.round(cropWidth),
+        height: Math.round(cropHeight),
+    };
+}
+
+/**
+ * Gives the pixel size a crop will be sent at.
+ * @param crop The crop, or null for the whole photo.
+ */
+export function getOutputSize(photo: Pick<PreparedPhoto, 'canvas'>, crop: CropRect | null, maxEdge: number): { width: number; height: number } {
+    const width = crop?.width ?? photo.canvas.width;
+    const height = crop?.height ?? photo.canvas.height;
+    const scale = Math.min(1, maxEdge / Math.max(width, height));
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+/**
+ * Crops, downsizes and re-encodes the photo as a JPEG for sending. Drawing
+ * through a canvas leaves the original's EXIF data (GPS, device serials) behind.
+ * @param crop The region to keep, or null for the whole photo.
+ * @param maxEdge The longest edge allowed, in pixels.
+ */
+export function finishPhoto(photo: Pick<PreparedPhoto, 'canvas'>, crop: CropRect | null, maxEdge: number): ProcessedPhoto {
+    const region = crop ?? { x: 0, y: 0, width: photo.canvas.width, height: photo.canvas.height };
+    const { width, height } = getOutputSize(photo, crop, maxEdge);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new UploadError("Your browser couldn't process the photo.");
+
+    // JPEG has no transparency; give see-through PNGs a white backing instead of black.
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(photo.canvas, region.x, region.y, region.width, region.height, 0, 0, width, height);
+
+    const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return { dataUrl, width, height, bytes: base64.length * 3 / 4 - padding };
+}
+
+/**
+ * Formats a byte count for display, e.g. "412 KB" or "3.1 MB".
+ */
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { clearApiKey, hasApiKey } from '../services/apiKeyStore';
+import { clearSession, getSessionSummary } from './sessionStore';
+import type { StoredSessionSummary } from './sessionStore';
+
+// Every localStorage key the app writes starts with this.
+const STORAGE_PREFIX = 'hamburg84:';
+
+/** One thing the app keeps in this browser. */
+export interface LocalDataItem {
+    label: string;
+    /** Whether it is gone when the tab closes, or stays in the browser. */
+    lifetime: 'tab' | 'browser';
+    /** Whether it can contain photos of people or credentials. */
+    isPersonal: boolean;
+    bytes: number;
+}
+
+export interface LocalDataReport {
+    items: LocalDataItem[];
+    session: StoredSessionSummary | null;
+}
+
+function describeStorageKey(key: string): string {
+    const name = key.slice(STORAGE_PREFIX.length);
+    if (name === 'settings') return 'Settings';
+    if (name === 'theme-packs') return 'Imported scenes';
+    if (name.startsWith('archetypes')) {
+        const packId = name.split(':')[1];
+        return packId ? `Archetypes (${packId})` : 'Archetypes';
+    }
+    return name;
+}
+
+/**
+ * Lists what the app has stored in this browser.
+ */
+export async function getLocalDataReport(): Promise<LocalDataReport> {
+    const items: LocalDataItem[] = [];
+    try {
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (!key?.startsWith(STORAGE_PREFIX)) continue;
+            items.push({
+                label: describeStorageKey(key),
+                lifetime: 'browser',
+                isPersonal: false,
+                bytes: key.length + (localStorage.getItem(key)?.length ?? 0),
+            });
+        }
+    } catch {
+        // Storage unavailable; nothing is kept there either.
+    }
+    if (hasApiKey()) {
+        items.push({ label: 'Gemini API key', lifetime: 'tab', isPersonal: true, bytes: 0 });
+    }
+
+    const session = await getSessionSummary();
+    if (session) {
+        items.push({ label: 'Your photos and results', lifetime: 'browser', isPersonal: true, bytes: session.bytes });
+    }
+    return { items, session };
+}
+
+/**
+ * Deletes the stored photos, results and their history, and the API key.
+ * Settings, archetypes and imported scenes hold nothing personal and are kept.
+ */
+export async function forgetPersonalData(): Promise<void> {
+    clearApiKey();
+    await clearSession();
+}
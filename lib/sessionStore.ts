@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Archetype } from './archetypeRegistry';
+import type { GeneratedImage } from './cardState';
+import type { CrewCast } from './crew';
+import type { Person } from './people';
+
+// Photos and results are too large for localStorage, so the board is kept in IndexedDB.
+const DB_NAME = 'hamburg84';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+const SESSION_KEY = 'current';
+// Version 1 held a single photo; those sessions are simply dropped.
+const SESSION_VERSION = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** The board as it was last left, saved so a reload doesn't lose it. */
+export interface StoredSession {
+    version: number;
+    /** When the photos were chosen; the session expires relative to this. */
+    startedAt: number;
+    expiresAt: number;
+    themePack: string;
+    people: Person[];
+    activePersonId: string | null;
+    /** Keyed by card, see `cardKey`. */
+    generatedImages: Record<string, GeneratedImage>;
+    looks: Archetype[];
+    /** Who plays which role in the crew shots; missing in sessions saved before they existed. */
+    cast?: CrewCast;
+    /** A data URL of the style reference, if one was chosen. */
+    styleReference?: string;
+}
+
+/** What the privacy panel shows about a stored session. */
+export interface StoredSessionSummary {
+    startedAt: number;
+    expiresAt: number;
+    /** The photos plus every take in every card's history. */
+    imageCount: number;
+    bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch(err => {
+            // Let a later call try again, e.g. after the user allows storage.
+            dbPromise = null;
+            throw err;
+        });
+    }
+    return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Works out when a session started at `startedAt` expires.
+ * @param keepHours How long sessions are kept; 0 means they aren't.
+ */
+export function getSessionExpiry(startedAt: number, keepHours: number): number {
+    return startedAt + keepHours * HOUR_MS;
+}
+
+/**
+ * Saves the board, unless sessions aren't kept or this one has already expired.
+ * @param keepHours How long sessions are kept; 0 removes any stored one instead.
+ */
+export async function saveSession(session: Omit<StoredSession, 'version' | 'expiresAt'>, keepHours: number): Promise<void> {
+    const expiresAt = getSessionExpiry(session.startedAt, keepHours);
+    if (keepHours <= 0 || expiresAt <= Date.now()) {
+        await clearSession();
+        return;
+    }
+    try {
+        await run('readwrite', store => store.put({ ...session, version: SESSION_VERSION, expiresAt }, SESSION_KEY));
+    } catch (err) {
+        console.warn("Could not save the session:", err);
+    }
+}
+
+/**
+ * Loads the stored session, deleting it instead if it has expired.
+ * @returns The session, or null if there is none to restore.
+ */
+export async function loadSession(): Promise<StoredSession | null> {
+    try {
+        const session = await run<StoredSession | undefined>('readonly', store => store.get(SESSION_KEY));
+        if (!session) return null;
+        if (session.version !== SESSION_VERSION || session.expiresAt <= Date.now()) {
+            await clearSession();
+            return null;
+        }
+        return session;
+    } catch (err) {
+        console.warn("Could not load the saved session:", err);
+        return null;
+    }
+}
+
+/**
+ * Deletes the stored session, photo and all.
+ */
+export async function clearSession(): Promise<void> {
+    try {
+        await run('readwrite', store => store.delete(SESSION_KEY));
+    } catch (err) {
+        console.warn("Could not clear the saved session:", err);
+    }
+}
+
+/**
+ * Describes the stored session without handing out its images.
+ * @returns The summary, or null if nothing is stored.
+ */
+export async function getSessionSummary(): Promise<StoredSessionSummary | null> {
+    const session = await loadSession();
+    if (!session) return null;
+
+    const images = new Set<string>(session.people.map(person => person.image));
+    if (session.styleReference) images.add(session.styleReference);
+    for (const card of Object.values(session.generatedImages)) {
+        card.variants.forEach(url => images.add(url));
+        card.history.forEach(version => version.variants.forEach(url => images.add(url)));
+    }
+    return {
+        startedAt: session.startedAt,
+        expiresAt: session.expiresAt,
+        imageCount: images.size,
+        bytes: [...images].reduce((total, url) => total + url.length, 0),
+    };
+}
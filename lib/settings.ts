@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useSyncExternalStore } from 'react';
+import type { LookbookFormatId, LookbookTemplateId } from './lookbookTemplates';
+
+export interface AppSettings {
+    /** How many generations may run at once. */
+    concurrency: number;
+    /** How many takes to develop per archetype. */
+    variants: number;
+    /** The id of the active theme pack. */
+    themePack: string;
+    /** Longest edge, in pixels, of the photo sent for generation. */
+    maxUploadEdge: number;
+    /** How many hours the photo and results are kept on this device; 0 keeps nothing. */
+    keepSessionHours: number;
+    /** The lookbook layout last chosen in the preview. */
+    lookbookTemplate: LookbookTemplateId;
+    lookbookFormat: LookbookFormatId;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    concurrency: 2,
+    variants: 1,
+    themePack: 'hamburg84',
+    maxUploadEdge: 1024,
+    keepSessionHours: 24,
+    lookbookTemplate: 'scattered',
+    lookbookFormat: 'a4',
+};
+
+const STORAGE_KEY = 'hamburg84:settings';
+
+type Listener = (settings: AppSettings) => void;
+const listeners = new Set<Listener>();
+
+function load(): AppSettings {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+    } catch {
+        // Corrupt or unavailable storage; fall back to defaults.
+        return DEFAULT_SETTINGS;
+    }
+}
+
+let current = load();
+
+/**
+ * Returns the current settings.
+ */
+export function getSettings(): AppSettings {
+    return current;
+}
+
+/**
+ * Updates and persists some settings.
+ * @param patch The settings to change.
+ * @returns The updated settings.
+ */
+export function updateSettings(patch: Partial<AppSettings>): AppSettings {
+    current = { ...current, ...patch };
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+    } catch (err) {
+        console.warn("Could not persist settings:", err);
+    }
+    listeners.forEach(listener => listener(current));
+    return current;
+}
+
+/**
+ * Subscribes to settings changes.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToSettings(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+/**
+ * React hook returning the current settings, re-rendering when they change.
+ */
+export function useSettings(): AppSettings {
+    return useSyncExternalStore(subscribeToSettings, getSettings);
+}
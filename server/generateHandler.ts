@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { callGemini, callGeminiEdit, processGeminiResponse } from '../services/geminiClient.ts';
+import { BadInputError, ConfigError, GenerationError, QuotaError, classifyError } from '../services/generationErrors.ts';
+import type { GenerationErrorKind } from '../services/generationErrors.ts';
+import { MAX_CREW_SIZE, MAX_EDIT_TURNS, MAX_PROMPT_LENGTH, composePrompt } from '../services/prompts.ts';
+import { hamburg84 } from '../themes/hamburg84.ts';
+import { createRateLimiter } from './rateLimiter.ts';
+
+export const GENERATE_ROUTE = '/api/generate';
+export const EDIT_ROUTE = '/api/edit';
+
+export interface GenerateHandlerOptions {
+    apiKey: string | undefined;
+    /** Largest accepted request body, in bytes. */
+    maxBodyBytes?: number;
+    /** Requests allowed per client within `rateLimitWindowMs`. */
+    rateLimitMaxRequests?: number;
+    rateLimitWindowMs?: number;
+    /** Requests allowed from all clients together over a rolling day, a ceiling on what the key can spend. */
+    dailyMaxRequests?: number;
+    /** Honour X-Forwarded-For when identifying clients (only behind a trusted proxy). */
+    trustProxy?: boolean;
+}
+
+type NextFunction = (err?: unknown) => void;
+type Payload = Record<string, unknown>;
+
+// Used when a client sends only an archetype name, which older clients did.
+const BUILT_IN_PROMPTS: Record<string, string> = Object.fromEntries(
+    hamburg84.archetypes.map(archetype => [archetype.name, composePrompt(archetype, hamburg84.prompt)]),
+);
+
+const STATUS_FOR_KIND: Record<GenerationErrorKind, number> = {
+    'blocked': 422,
+    'quota': 429,
+    'transient': 503,
+    'bad-input': 400,
+    'no-image': 502,
+    'config': 503,
+    // Not sent in practice: the client has gone away by the time it applies.
+    'cancelled': 499,
+};
+
+// Pairs a typed error with an HTTP status more specific than its kind implies.
+class HttpError extends Error {
+    readonly status: number;
+    readonly error: GenerationError;
+
+    constructor(status: number, error: GenerationError) {
+        super(error.message);
+        this.status = status;
+        this.error = error;
+    }
+}
+
+function sendJson(res: ServerResponse, status: number, body: object, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: GenerationError, status = STATUS_FOR_KIND[error.kind]) {
+    const headers: Record<string, string> = {};
+    if (status === 413) {
+        // The rest of the upload is discarded; don't keep the connection for another request.
+        headers['Connection'] = 'close';
+    }
+    if (error.retryAfterMs !== undefined) {
+        headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+    }
+    sendJson(res, status, { error: error.toInfo() }, headers);
+}
+
+function getClientId(req: IncomingMessage, trustProxy: boolean): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string' && forwarded) {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+}
+
+function tooLarge(maxBytes: number): HttpError {
+    return new HttpError(413, new BadInputError(`Upload too large. The limit is ${(maxBytes / (1024 * 1024)).toFixed(1)} MB.`));
+}
+
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const declared = Number(req.headers['content-length']);
+        if (declared > maxBytes) {
+            reject(tooLarge(maxBytes));
+            return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        req.on('data', (chunk: Buffer) => {
+            received += chunk.length;
+            if (received > maxBytes) {
+                // Stop collecting but keep the socket open, so the 413 still reaches the client.
+                req.removeAllListeners('data');
+                req.resume();
+                reject(tooLarge(maxBytes));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+// Splits a base64 image data URL into an inline image part.
+function toImagePart(image: unknown): object {
+    const match = typeof image === 'string' ? image.match(/^data:(image\/\w+);base64,(.*)$/) : null;
+    if (!match) {
+        throw new BadInputError("That photo format isn't supported.", { detail: "Expected 'data:image/...;base64,...'" });
+    }
+    const [, mimeType, data] = match;
+    return { inlineData: { mimeType, data } };
+}
+
+function readPrompt(value: unknown, key: string): string {
+    if (typeof value !== 'string' || !value.trim() || value.length > MAX_PROMPT_LENGTH) {
+        throw new BadInputError(`'${key}' must be a string of at most ${MAX_PROMPT_LENGTH} characters.`);
+    }
+    return value;
+}
+
+// A new image from one or more photos.
+function generate(ai: GoogleGenAI, payload: Payload, signal: AbortSignal) {
+    const { archetype, prompt: customPrompt } = payload;
+    // Older clients send a single 'image'.
+    const images = payload.images ?? (payload.image === undefined ? undefined : [payload.image]);
+    if (!Array.isArray(images) || images.length === 0 || typeof archetype !== 'string') {
+        throw new BadInputError("Expected an 'images' list and an 'archetype' string.");
+    }
+    if (images.length > MAX_CREW_SIZE) {
+        throw new BadInputError(`At most ${MAX_CREW_SIZE} photos can be sent at once.`);
+    }
+    if (customPrompt !== undefined) {
+        readPrompt(customPrompt, 'prompt');
+    }
+    // The style reference goes last, where the prompt says it is.
+    const imageParts = images.map(toImagePart);
+    if (payload.styleReference !== undefined) {
+        // Only a prompt sent along can point the model at the reference.
+        if (customPrompt === undefined) {
+            throw new BadInputError("A 'styleReference' needs the 'prompt' that mentions it.");
+        }
+        imageParts.push(toImagePart(payload.styleReference));
+    }
+    const prompt = (customPrompt as string | undefined) || BUILT_IN_PROMPTS[archetype];
+    if (!prompt) {
+        throw new BadInputError(`No prompt found for archetype: ${archetype}`);
+    }
+    return callGemini(ai, imageParts, { text: prompt }, signal);
+}
+
+// The next step of a card's edit conversation, or a repaint of a masked area.
+function edit(ai: GoogleGenAI, payload: Payload, signal: AbortSignal) {
+    const { image, mask, turns, prompt } = payload;
+    if (!Array.isArray(turns) || turns.length > MAX_EDIT_TURNS) {
+        throw new BadInputError(`Expected a 'turns' list of at most ${MAX_EDIT_TURNS} steps.`);
+    }
+    const turnParts = turns.map((turn, index) => {
+        const step = (typeof turn === 'object' && turn !== null ? turn : {}) as Payload;
+        return { prompt: readPrompt(step.prompt, `turns[${index}].prompt`), imagePart: toImagePart(step.image) };
+    });
+    const imageParts = mask === undefined ? [toImagePart(image)] : [toImagePart(image), toImagePart(mask)];
+    return callGeminiEdit(ai, imageParts, turnParts, readPrompt(prompt, 'prompt'), signal);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Every client shares this bucket in the daily limiter.
+const ALL_CLIENTS = '*';
+
+const ROUTES: Record<string, (ai: GoogleGenAI, payload: Payload, signal: AbortSignal) => ReturnType<typeof callGemini>> = {
+    [GENERATE_ROUTE]: generate,
+    [EDIT_ROUTE]: edit,
+};
+
+/**
+ * Creates a Connect-style middleware for the generation routes. The Gemini key
+ * stays on the server. To generate, clients send their photos (several for a
+ * crew shot), an optional style reference, the archetype name and, for
+ * user-edited archetypes, the prompt; to refine a card, the image, the earlier
+ * steps of its edit conversation and the new instruction, plus a mask when only
+ * a painted area should change.
+ *
+ * Editable archetypes, looks and refinements need free-text prompts, so the
+ * routes relay any prompt up to `MAX_PROMPT_LENGTH` characters: anyone who can
+ * reach them can run their own image prompts on the key. The per-client and
+ * daily limits bound what that costs; keep the server private if that is too
+ * much.
+ * @param options The key and abuse limits.
+ * @returns A middleware that handles `POST /api/generate` and `POST /api/edit` and passes every other request on.
+ */
+export function createGenerateHandler({
+    apiKey,
+    maxBodyBytes = 10 * 1024 * 1024,
+    rateLimitMaxRequests = 20,
+    rateLimitWindowMs = 60_000,
+    dailyMaxRequests = 1000,
+    trustProxy = false,
+}: GenerateHandlerOptions) {
+    const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+    const checkRateLimit = createRateLimiter({ maxRequests: rateLimitMaxRequests, windowMs: rateLimitWindowMs });
+    const checkDailyLimit = createRateLimiter({ maxRequests: dailyMaxRequests, windowMs: DAY_MS });
+
+    return async (req: IncomingMessage, res: ServerResponse, next: NextFunction) => {
+        const route = ROUTES[req.url?.split('?')[0] ?? ''];
+        if (!route) {
+            next();
+            return;
+        }
+
+        // Stop the Gemini call when the client goes away before the answer is sent.
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+        });
+
+        try {
+            if (req.method !== 'POST') {
+                throw new HttpError(405, new BadInputError('Method not allowed.'));
+            }
+            if (!ai) {
+                throw new ConfigError('The server has no Gemini API key configured.');
+            }
+
+            const limit = checkRateLimit(getClientId(req, trustProxy));
+            if (!limit.allowed) {
+                throw new QuotaError('Too many requests from this device.', { retryAfterMs: limit.retryAfterMs });
+            }
+            const daily = checkDailyLimit(ALL_CLIENTS);
+            if (!daily.allowed) {
+                throw new QuotaError('The server has used up its generations for today.', { retryAfterMs: daily.retryAfterMs });
+            }
+
+            let payload: Payload;
+            try {
+                payload = JSON.parse(await readBody(req, maxBodyBytes));
+            } catch (err) {
+                if (err instanceof HttpError) throw err;
+                throw new BadInputError('Request body must be JSON.');
+            }
+            if (typeof payload !== 'object' || payload === null) {
+                throw new BadInputError('Request body must be a JSON object.');
+            }
+
+            const response = await route(ai, payload, controller.signal);
+            sendJson(res, 200, { image: processGeminiResponse(response) });
+        } catch (err) {
+            // Nobody is left to answer.
+            if (controller.signal.aborted) return;
+            if (err instanceof HttpError) {
+                sendError(res, err.error, err.status);
+                return;
+            }
+            const error = classifyError(err);
+            if (!(err instanceof GenerationError)) {
+                console.error(`Generation failed for ${req.url}:`, err);
+            }
+            sendError(res, error);
+        }
+    };
+}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Production server: serves the built app from dist/ and the generation proxy.
+// Run with `npm run build && npm start`.
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { createGenerateHandler } from './generateHandler.ts';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DIST_DIR = path.resolve(import.meta.dirname, '..', 'dist');
+
+const MIME_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.svg': 'image/svg+xml',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+};
+
+async function serveStatic(req: IncomingMessage, res: ServerResponse) {
+    let urlPath: string;
+    try {
+        urlPath = decodeURIComponent((req.url ?? '/').split('?')[0]);
+    } catch {
+        // A malformed escape such as `%E0%A4%A`.
+        res.writeHead(400).end('Bad request');
+        return;
+    }
+    let filePath = path.join(DIST_DIR, path.normalize(urlPath));
+    const relative = path.relative(DIST_DIR, filePath);
+    // Compare path segments, so a sibling such as dist-old/ doesn't pass as inside dist/.
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+        res.writeHead(403).end();
+        return;
+    }
+
+    try {
+        if (!(await stat(filePath)).isFile()) {
+            filePath = path.join(DIST_DIR, 'index.html');
+        }
+    } catch {
+        // Unknown paths fall back to the app shell.
+        filePath = path.join(DIST_DIR, 'index.html');
+    }
+
+    try {
+        const body = await readFile(filePath);
+        res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(filePath)] ?? 'application/octet-stream' });
+        res.end(body);
+    } catch {
+        res.writeHead(404).end('Not found. Did you run `npm run build`?');
+    }
+}
+
+const handleGenerate = createGenerateHandler({
+    apiKey: process.env.GEMINI_API_KEY,
+    maxBodyBytes: Number(process.env.MAX_UPLOAD_BYTES) || undefined,
+    rateLimitMaxRequests: Number(process.env.RATE_LIMIT_MAX_REQUESTS) || undefined,
+    rateLimitWindowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || undefined,
+    dailyMaxRequests: Number(process.env.DAILY_MAX_REQUESTS) || undefined,
+    trustProxy: process.env.TRUST_PROXY === 'true',
+});
+
+createServer((req, res) => {
+    handleGenerate(req, res, () => {
+        serveStatic(req, res).catch(err => {
+            console.error('Failed to serve', req.url, err);
+            if (!res.headersSent) {
+                res.writeHead(500);
+            }
+            res.end();
+        });
+    });
+}).listen(PORT, () => {
+    if (!process.env.GEMINI_API_KEY) {
+        console.warn('GEMINI_API_KEY is not set; /api/generate and /api/edit will respond with 503.');
+    }
+    console.log(`Hamburg '84 server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimitOptions {
+    /** Requests a client may burst before being throttled. */
+    maxRequests: number;
+    /** Time in which a client's full allowance is refilled. */
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    /** When not allowed, how long until the next request would be accepted. */
+    retryAfterMs: number;
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * Creates a per-client token-bucket rate limiter.
+ * @param options The allowance per client.
+ * @returns A function that records a request for a client and reports whether it may proceed.
+ */
+export function createRateLimiter({ maxRequests, windowMs }: RateLimitOptions) {
+    const buckets = new Map<string, Bucket>();
+    const refillPerMs = maxRequests / windowMs;
+
+    return (clientId: string, now = Date.now()): RateLimitResult => {
+        const bucket = buckets.get(clientId) ?? { tokens: maxRequests, updatedAt: now };
+        bucket.tokens = Math.min(maxRequests, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+        bucket.updatedAt = now;
+        buckets.set(clientId, bucket);
+
+        // Drop buckets that have fully refilled so the map doesn't grow without bound.
+        if (buckets.size > 10_000) {
+            for (const [id, b] of buckets) {
+                if (id !== clientId && b.tokens + (now - b.updatedAt) * refillPerMs >= maxRequests) {
+                    buckets.delete(id);
+                }
+            }
+        }
+
+        if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            return { allowed: true, retryAfterMs: 0 };
+        }
+        return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    };
+}
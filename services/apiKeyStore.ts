@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Kept in sessionStorage so a pasted key lives only as long as the tab.
+const STORAGE_KEY = 'hamburg84:gemini-api-key';
+
+type Listener = (hasKey: boolean) => void;
+const listeners = new Set<Listener>();
+
+function readSessionKey(): string | null {
+    try {
+        return sessionStorage.getItem(STORAGE_KEY);
+    } catch {
+        // Storage can be unavailable (e.g. privacy mode or sandboxed iframes).
+        return null;
+    }
+}
+
+function notify() {
+    const hasKey = hasApiKey();
+    listeners.forEach(listener => listener(hasKey));
+}
+
+/**
+ * Returns the key the user pasted this session. Keys are never baked into the
+ * bundle; deployments that shouldn't ask users for one use the server proxy.
+ */
+export function getApiKey(): string | null {
+    return readSessionKey();
+}
+
+/**
+ * Whether any API key is available.
+ */
+export function hasApiKey(): boolean {
+    return Boolean(getApiKey());
+}
+
+/**
+ * Stores a user-provided key for the rest of the session.
+ * @param key The API key.
+ */
+export function setApiKey(key: string): void {
+    sessionStorage.setItem(STORAGE_KEY, key.trim());
+    notify();
+}
+
+/**
+ * Forgets the user-provided key.
+ */
+export function clearApiKey(): void {
+    sessionStorage.removeItem(STORAGE_KEY);
+    notify();
+}
+
+/**
+ * Subscribes to key changes.
+ * @param listener Called with whether a key is available after every change.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToApiKey(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
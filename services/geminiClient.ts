@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Shared by the browser provider and the server proxy, so keep this module
+// free of DOM and storage access. Relative imports carry their extension so
+// Node can run it directly.
+import type { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { BlockedError, NoImageError } from './generationErrors.ts';
+
+export const MODEL = 'gemini-2.5-flash-image';
+
+// Finish reasons that mean a safety or policy filter stopped the output.
+const BLOCKING_FINISH_REASONS = new Set([
+    'SAFETY',
+    'RECITATION',
+    'BLOCKLIST',
+    'PROHIBITED_CONTENT',
+    'SPII',
+    'IMAGE_SAFETY',
+    'IMAGE_PROHIBITED_CONTENT',
+    'IMAGE_RECITATION',
+]);
+
+/**
+ * Processes the Gemini API response, extracting the image or throwing a typed error if none is found.
+ * @param response The response from the generateContent call.
+ * @returns A data URL string for the generated image.
+ */
+export function processGeminiResponse(response: GenerateContentResponse): string {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        const reasonMessage = response.promptFeedback?.blockReasonMessage;
+        throw new BlockedError('The request was blocked by a safety filter.', {
+            detail: reasonMessage ? `${blockReason}: ${reasonMessage}` : String(blockReason),
+        });
+    }
+
+    const candidate = response.candidates?.[0];
+    const imagePartFromResponse = candidate?.content?.parts?.find(part => part.inlineData);
+
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    const finishReason = candidate?.finishReason ? String(candidate.finishReason) : undefined;
+    if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) {
+        const finishMessage = candidate?.finishMessage;
+        throw new BlockedError('The generated image was blocked by a safety filter.', {
+            detail: finishMessage ? `${finishReason}: ${finishMessage}` : finishReason,
+        });
+    }
+
+    const textResponse = response.text;
+    console.error("API did not return an image. Response:", textResponse);
+    if (textResponse) {
+        throw new NoImageError('The AI model responded with text instead of an image.', { detail: textResponse });
+    }
+    throw new NoImageError('The AI model returned no image.', {
+        detail: finishReason && finishReason !== 'STOP' ? `Generation stopped: ${finishReason}` : undefined,
+    });
+}
+
+/** One earlier step of an edit conversation, as request parts. */
+export interface EditTurnParts {
+    prompt: string;
+    imagePart: object;
+}
+
+/**
+ * Makes a single Gemini API call that continues an edit conversation: the
+ * first user turn carries the image, and each earlier step is replayed as the
+ * instruction followed by the model's image, so the model edits its own
+ * last answer.
+ * @param ai The client to call with.
+ * @param imageParts The image the conversation started from, and its mask if the edit is limited to one area.
+ * @param turns Earlier steps, oldest first.
+ * @param prompt The edit to make now.
+ * @param signal Aborts the HTTP request.
+ * @returns The GenerateContentResponse from the API.
+ */
+export async function callGeminiEdit(ai: GoogleGenAI, imageParts: object[], turns: EditTurnParts[], prompt: string, signal?: AbortSignal): Promise<GenerateContentResponse> {
+    const contents: { role: string; parts: object[] }[] = [];
+    [...turns, { prompt, imagePart: undefined }].forEach((turn, index) => {
+        contents.push({ role: 'user', parts: index === 0 ? [...imageParts, { text: turn.prompt }] : [{ text: turn.prompt }] });
+        if (turn.imagePart) {
+            contents.push({ role: 'model', parts: [turn.imagePart] });
+        }
+    });
+    return ai.models.generateContent({
+        model: MODEL,
+        contents,
+        config: { abortSignal: signal },
+    });
+}
+
+/**
+ * Makes a single Gemini API call. Retries are the caller's concern: the
+ * browser applies the retry policy in generatePimpImage, and the server
+ * proxy forwards retry hints to the browser rather than retrying itself.
+ * @param ai The client to call with.
+ * @param imageParts The image parts of the request payload, one per source photo.
+ * @param textPart The text part of the request payload.
+ * @param signal Aborts the HTTP request.
+ * @returns The GenerateContentResponse from the API.
+ */
+export async function callGemini(ai: GoogleGenAI, imageParts: object[], textPart: object, signal?: AbortSignal): Promise<GenerateContentResponse> {
+    return ai.models.generateContent({
+        model: MODEL,
+        contents: { parts: [...imageParts, textPart] },
+        config: { abortSignal: signal },
+    });
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI } from "@google/genai";
+import { getApiKey, hasApiKey } from './apiKeyStore';
+import { MODEL, callGemini, callGeminiEdit, processGeminiResponse } from './geminiClient';
+import { ConfigError } from './generationErrors';
+import type { ImageEditRequest, ImageGenerationRequest, ImageProvider } from './imageProvider';
+import type { InlineImage } from '../lib/imageUtils';
+
+const toPart = (image: InlineImage) => ({
+    inlineData: { mimeType: image.mimeType, data: image.data },
+});
+
+let ai: GoogleGenAI | null = null;
+let aiKey: string | null = null;
+
+/**
+ * Builds the client lazily, and again whenever the configured key changes,
+ * so that a missing key only fails generation rather than the whole app.
+ */
+function getClient(): GoogleGenAI {
+    const apiKey = getApiKey();
+    if (!apiKey) {
+        throw new ConfigError("No Gemini API key configured. Add one in Settings.");
+    }
+    if (!ai || aiKey !== apiKey) {
+        ai = new GoogleGenAI({ apiKey });
+        aiKey = apiKey;
+    }
+    return ai;
+}
+
+/**
+ * Checks a key with a cheap metadata lookup instead of a billable generation.
+ * @param apiKey The key to validate.
+ * @returns A promise that resolves if the key can see the image model, and rejects otherwise.
+ */
+export async function validateGeminiApiKey(apiKey: string): Promise<void> {
+    const probe = new GoogleGenAI({ apiKey });
+    await probe.models.get({ model: MODEL });
+}
+
+/**
+ * Generates images with the Gemini image model.
+ */
+export const geminiProvider: ImageProvider = {
+    id: 'gemini',
+    displayName: 'Gemini 2.5 Flash Image',
+    isConfigured: hasApiKey,
+    async generateImage({ images, styleReference, prompt, signal }: ImageGenerationRequest): Promise<string> {
+        // The prompt refers to the reference as the last image.
+        const imageParts = [...images, ...(styleReference ? [styleReference] : [])].map(toPart);
+        const textPart = { text: prompt };
+
+        const response = await callGemini(getClient(), imageParts, textPart, signal);
+        return processGeminiResponse(response);
+    },
+    async editImage({ image, mask, turns, prompt, signal }: ImageEditRequest): Promise<string> {
+        const turnParts = turns.map(turn => ({ prompt: turn.prompt, imagePart: toPart(turn.image) }));
+        const imageParts = mask ? [toPart(image), toPart(mask)] : [toPart(image)];
+        const response = await callGeminiEdit(getClient(), imageParts, turnParts, prompt, signal);
+        return processGeminiResponse(response);
+    },
+};
@@ -2,109 +2,189 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI } from "@google/genai";
-import type { GenerateContentResponse } from "@google/genai";
-
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+import { getArchetype, getArchetypePrompt, getEditPrompt } from '../lib/archetypeRegistry';
+import type { ArchetypeDraft } from '../lib/archetypeRegistry';
+import { parseImageDataUrl, shrinkImage, stripImageMetadata } from '../lib/imageUtils';
+import { compositeMasked } from '../lib/mask';
+import { BadInputError, NoImageError, classifyError, isAbortError } from './generationErrors';
+import type { GenerationError } from './generationErrors';
+import { getImageProvider } from './imageProvider';
+import type { ImageProvider } from './imageProvider';
+import { MAX_EDIT_TURNS, MAX_INSTRUCTION_LENGTH, usesStyleReference } from './prompts';
+import { withRetry } from './retryPolicy';
+import type { RetryOptions } from './retryPolicy';
+
+export interface GenerateOptions extends RetryOptions {
+    /** A data URL of the still whose look the archetype should follow. */
+    styleReference?: string;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+/** One earlier refinement of a card: what was asked and the image that came back. */
+export interface RefinementStep {
+    instruction: string;
+    url: string;
+}
 
-const PROMPTS: Record<string, string> = {
-    'Kiez-König': 'Reimagine the person in this photo as a powerful Hamburg pimp from the 1980s, the "Kiez-König". The image should be a photorealistic portrait. They are wearing a black leather jacket over an open-collared shirt, heavy gold chains, and have a confident, intimidating expression. The background is a dimly lit, smoky bar on the Reeperbahn. The aesthetic must feel like a gritty 1980s film photograph.',
-    'Luden-Larry': 'Reimagine the person in this photo as a flashy Hamburg pimp from the 1980s, "Luden-Larry". They are wearing a garish, brightly colored silk shirt, a white blazer, and gold-rimmed aviator sunglasses. They are leaning against a classic 80s sports car. The background is filled with the bright neon signs of the Reeperbahn at night. The style should be vibrant and slightly over-saturated, like a high-flash 80s photo.',
-    'Gold-Zahn Günther': 'Reimagine the person in this photo as a tough, street-level Hamburg pimp from the 1980s, "Gold-Zahn Günther". They have a mullet hairstyle and a prominent gold tooth. They are wearing a cheap-looking tracksuit and a scowl. The photo must have a raw, candid feel, as if taken on a gritty side street off the Reeperbahn. The lighting is harsh and the colors are slightly faded.',
-    'Disco Dieter': 'Reimagine the person in this photo as a stylish Hamburg pimp from the 1980s, "Disco Dieter". They are inside a pulsating 80s disco, with a disco ball and colorful lights in the background. They are wearing a shiny shirt, tight pants, and have perfectly coiffed hair. They are holding a cocktail and have a suave look. The image must capture the dynamic, colorful atmosphere of an 80s nightclub.',
-    'Porsche-Paul': 'Reimagine the person in this photo as a wealthy Hamburg pimp from the 1980s, "Porsche-Paul". They are standing proudly next to a white Porsche 911. They are wearing an expensive suit with the jacket open, revealing a flamboyant shirt. Their expression is one of smug success. The scene is set on a Hamburg street at dusk, with the car\'s headlights on. The photo style should be sharp and glossy, like from a car magazine of the era.'
-};
+// Longest edge of the earlier images sent as refinement context. At this size
+// and as JPEG, four of them stay well under 2 MB together.
+const CONTEXT_MAX_EDGE = 1024;
 
+// Runs a provider call under the retry policy and turns whatever went wrong into a typed error.
+async function dispatch(label: string, action: string, call: (provider: ImageProvider) => Promise<string>, options: RetryOptions): Promise<string> {
+    const provider = getImageProvider();
 
-/**
- * Processes the Gemini API response, extracting the image or throwing an error if none is found.
- * @param response The response from the generateContent call.
- * @returns A data URL string for the generated image.
- */
-function processGeminiResponse(response: GenerateContentResponse): string {
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        return `data:${mimeType};base64,${data}`;
+    try {
+        console.log(`Attempting ${action} for ${label} with ${provider.id}...`);
+        return await withRetry(() => call(provider), options);
+    } catch (error) {
+        if (options.signal?.aborted || isAbortError(error)) {
+            console.log(`The ${action} for ${label} was cancelled.`);
+            throw classifyError(error);
+        }
+        const generationError: GenerationError = classifyError(error);
+        console.error(`An unrecoverable ${generationError.kind} error occurred during the ${action} for ${label}.`, error);
+        throw generationError;
     }
+}
 
-    const textResponse = response.text;
-    console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+function checkInstruction(instruction: string) {
+    if (!instruction.trim()) {
+        throw new BadInputError('Say what to change.');
+    }
+    if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+        throw new BadInputError(`Keep the instruction under ${MAX_INSTRUCTION_LENGTH} characters.`);
+    }
 }
 
 /**
- * A wrapper for the Gemini API call that includes a retry mechanism for internal server errors.
- * @param imagePart The image part of the request payload.
- * @param textPart The text part of the request payload.
- * @returns The GenerateContentResponse from the API.
+ * Generates an 80s pimp-styled image from a source image and an archetype, either one
+ * from the registry or an ad-hoc one such as a look from the look builder.
+ * A crew shot takes one photo per role and puts everyone in the same scene.
+ * The prompt is composed from the archetype's fields at call time.
+ * The work is dispatched to the currently configured image provider. Any
+ * metadata left in the photos (GPS, device serials) is removed before they are sent.
+ * @param imageDataUrls A data URL string of the source image (e.g., 'data:image/png;base64,...'), or one per role for a crew shot.
+ * @param archetypeOrId The archetype itself, or its id in the registry (e.g., 'kiez-konig').
+ * @param options The retry policy, a budget shared by every call in a batch, an abort signal,
+ *     and a style reference image, sent unless the archetype ignores it.
+ * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
+ * @throws {GenerationError} A typed error describing why no image was produced.
  */
-async function callGeminiWithRetry(imagePart: object, textPart: object): Promise<GenerateContentResponse> {
-    const maxRetries = 3;
-    const initialDelay = 1000;
+export async function generatePimpImage(imageDataUrls: string | string[], archetypeOrId: string | ArchetypeDraft, options: GenerateOptions = {}): Promise<string> {
+    let images;
+    try {
+        images = (Array.isArray(imageDataUrls) ? imageDataUrls : [imageDataUrls]).map(url => stripImageMetadata(parseImageDataUrl(url)));
+    } catch (error) {
+        throw new BadInputError('That photo format isn\'t supported.', { detail: (error as Error).message });
+    }
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    const archetype = typeof archetypeOrId === 'string' ? getArchetype(archetypeOrId) : archetypeOrId;
+    if (!archetype) {
+        throw new BadInputError(`No archetype found with id: ${archetypeOrId}`);
+    }
+    const pimpName = archetype.name;
+    let styleReference;
+    if (options.styleReference && usesStyleReference(archetype)) {
         try {
-            return await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: [imagePart, textPart] },
-            });
+            styleReference = stripImageMetadata(parseImageDataUrl(options.styleReference));
         } catch (error) {
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
-            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-            const isInternalError = errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL');
-
-            if (isInternalError && attempt < maxRetries) {
-                const delay = initialDelay * Math.pow(2, attempt - 1);
-                console.log(`Internal error detected. Retrying in ${delay}ms...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                continue;
-            }
-            throw error; // Re-throw if not a retriable error or if max retries are reached.
+            throw new BadInputError('That style reference format isn\'t supported.', { detail: (error as Error).message });
         }
     }
-    // This should be unreachable due to the loop and throw logic above.
-    throw new Error("Gemini API call failed after all retries.");
-}
+    const expectedImages = archetype.roles?.length || 1;
+    if (images.length !== expectedImages) {
+        throw new BadInputError(`${pimpName} needs ${expectedImages} photo${expectedImages === 1 ? '' : 's'}, but ${images.length} ${images.length === 1 ? 'was' : 'were'} given.`);
+    }
+    let prompt: string;
+    try {
+        prompt = getArchetypePrompt(archetype, { styleReference: Boolean(styleReference) });
+    } catch (error) {
+        throw new BadInputError(`The prompt for ${pimpName} couldn't be composed.`, { detail: (error as Error).message });
+    }
 
+    return dispatch(
+        pimpName,
+        'generation',
+        provider => provider.generateImage({ images, styleReference, prompt, label: pimpName, signal: options.signal }),
+        options,
+    );
+}
 
 /**
- * Generates an 80s pimp-styled image from a source image and an archetype name.
- * @param imageDataUrl A data URL string of the source image (e.g., 'data:image/png;base64,...').
- * @param pimpName The name of the pimp archetype (e.g., 'Kiez-König').
- * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
+ * Refines a generated image with a short instruction, e.g. "bigger gold
+ * chain", keeping everything else. The card's earlier refinements are sent
+ * along so the model builds on them; only the latest few are kept as context.
+ * @param baseUrl A data URL of the image the card's refinements started from.
+ * @param steps Earlier refinements, oldest first; the last one produced the image being refined.
+ * @param instruction What to change.
+ * @param label The card's caption, for logging.
+ * @param options The retry policy and an abort signal.
+ * @returns A promise that resolves to a data URL of the refined image.
+ * @throws {GenerationError} A typed error describing why no image was produced.
  */
-export async function generatePimpImage(imageDataUrl: string, pimpName: string): Promise<string> {
-    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-    if (!match) {
-        throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
+export async function refinePimpImage(baseUrl: string, steps: RefinementStep[], instruction: string, label: string, options: RetryOptions = {}): Promise<string> {
+    checkInstruction(instruction);
+
+    // Older steps drop out of the context; the image before the first kept one becomes the starting point.
+    const dropped = Math.max(0, steps.length - MAX_EDIT_TURNS);
+    const kept = steps.slice(dropped);
+    const startUrl = dropped > 0 ? steps[dropped - 1].url : baseUrl;
+    let image;
+    let turns;
+    try {
+        // Only the latest image is edited; the ones before it are context and go
+        // smaller, so a full conversation fits within the server's upload cap.
+        const urls = [startUrl, ...kept.map(step => step.url)];
+        const sent = await Promise.all(urls.map((url, index) => index < urls.length - 1 ? shrinkImage(url, CONTEXT_MAX_EDGE) : url));
+        image = parseImageDataUrl(sent[0]);
+        turns = kept.map((step, index) => ({ prompt: getEditPrompt(step.instruction), image: parseImageDataUrl(sent[index + 1]) }));
+    } catch (error) {
+        throw new BadInputError('That image can\'t be refined.', { detail: (error as Error).message });
     }
-    const [, mimeType, base64Data] = match;
+    const prompt = getEditPrompt(instruction);
+
+    return dispatch(
+        label,
+        'refinement',
+        provider => provider.editImage({ image, turns, prompt, label, signal: options.signal }),
+        options,
+    );
+}
 
-    const prompt = PROMPTS[pimpName];
-    if (!prompt) {
-        throw new Error(`No prompt found for archetype: ${pimpName}`);
+/**
+ * Regenerates only a painted area of a generated image, e.g. "replace the
+ * sunglasses". The model gets the image, the mask and the instruction; its
+ * answer is then composited onto the original here, so every pixel outside
+ * the mask stays identical whatever the model changed.
+ * @param imageUrl A data URL of the image to repaint.
+ * @param maskUrl A data URL of the mask, white over the area to change.
+ * @param instruction What to put there.
+ * @param label The card's caption, for logging.
+ * @param options The retry policy and an abort signal.
+ * @returns A promise that resolves to a PNG data URL of the repainted image.
+ * @throws {GenerationError} A typed error describing why no image was produced.
+ */
+export async function repaintPimpImage(imageUrl: string, maskUrl: string, instruction: string, label: string, options: RetryOptions = {}): Promise<string> {
+    checkInstruction(instruction);
+    let image;
+    let mask;
+    try {
+        image = parseImageDataUrl(imageUrl);
+        mask = parseImageDataUrl(maskUrl);
+    } catch (error) {
+        throw new BadInputError('That image can\'t be repainted.', { detail: (error as Error).message });
     }
-
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
-    };
-    const textPart = { text: prompt };
-
+    const prompt = getEditPrompt(instruction, { masked: true });
+
+    const editedUrl = await dispatch(
+        label,
+        'repaint',
+        provider => provider.editImage({ image, mask, turns: [], prompt, label, signal: options.signal }),
+        options,
+    );
     try {
-        console.log(`Attempting generation for ${pimpName}...`);
-        const response = await callGeminiWithRetry(imagePart, textPart);
-        return processGeminiResponse(response);
+        return await compositeMasked(imageUrl, editedUrl, maskUrl);
     } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        console.error(`An unrecoverable error occurred during image generation for ${pimpName}.`, error);
-        throw new Error(`The AI model failed to generate an image. Details: ${errorMessage}`);
+        throw new NoImageError('The repainted area couldn\'t be merged back into the image.', { detail: (error as Error).message, cause: error });
     }
-}
\ No newline at end of file
+}
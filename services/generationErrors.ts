@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Shared by the browser and the server proxy, so keep this module free of
+// DOM access and runtime imports.
+
+export type GenerationErrorKind = 'blocked' | 'quota' | 'transient' | 'bad-input' | 'no-image' | 'config' | 'cancelled';
+
+/** The serializable form of a GenerationError, as stored in app state and sent by the proxy. */
+export interface GenerationErrorInfo {
+    kind: GenerationErrorKind;
+    message: string;
+    /** The model's own words: its text reply, block reason or finish reason. */
+    detail?: string;
+    /** How long the server asked us to wait before trying again. */
+    retryAfterMs?: number;
+}
+
+/**
+ * Base class for every failure surfaced from image generation.
+ */
+export class GenerationError extends Error {
+    readonly kind: GenerationErrorKind;
+    readonly detail?: string;
+    readonly retryAfterMs?: number;
+
+    constructor(kind: GenerationErrorKind, message: string, options: { detail?: string; retryAfterMs?: number; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'GenerationError';
+        this.kind = kind;
+        this.detail = options.detail;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    toInfo(): GenerationErrorInfo {
+        return { kind: this.kind, message: this.message, detail: this.detail, retryAfterMs: this.retryAfterMs };
+    }
+}
+
+/** The request or the generated image was stopped by a safety filter. */
+export class BlockedError extends GenerationError {
+    constructor(message: string, options: { detail?: string; cause?: unknown } = {}) {
+        super('blocked', message, options);
+        this.name = 'BlockedError';
+    }
+}
+
+/** A rate limit or quota was hit. */
+export class QuotaError extends GenerationError {
+    constructor(message: string, options: { detail?: string; retryAfterMs?: number; cause?: unknown } = {}) {
+        super('quota', message, options);
+        this.name = 'QuotaError';
+    }
+}
+
+/** A server overload, internal error or network failure that is worth retrying. */
+export class TransientError extends GenerationError {
+    constructor(message: string, options: { detail?: string; retryAfterMs?: number; cause?: unknown } = {}) {
+        super('transient', message, options);
+        this.name = 'TransientError';
+    }
+}
+
+/** The request itself was rejected, typically because of the uploaded photo. */
+export class BadInputError extends GenerationError {
+    constructor(message: string, options: { detail?: string; cause?: unknown } = {}) {
+        super('bad-input', message, options);
+        this.name = 'BadInputError';
+    }
+}
+
+/** The model answered, but without an image. */
+export class NoImageError extends GenerationError {
+    constructor(message: string, options: { detail?: string; cause?: unknown } = {}) {
+        super('no-image', message, options);
+        this.name = 'NoImageError';
+    }
+}
+
+/** The API key is missing or was rejected. */
+export class ConfigError extends GenerationError {
+    constructor(message: string, options: { detail?: string; cause?: unknown } = {}) {
+        super('config', message, options);
+        this.name = 'ConfigError';
+    }
+}
+
+/** The user cancelled the generation. */
+export class CancelledError extends GenerationError {
+    constructor(message = 'Generation was cancelled.', options: { cause?: unknown } = {}) {
+        super('cancelled', message, options);
+        this.name = 'CancelledError';
+    }
+}
+
+/**
+ * Whether the error came from an aborted AbortSignal.
+ */
+export function isAbortError(error: unknown): boolean {
+    return (error as { name?: unknown } | null)?.name === 'AbortError';
+}
+
+/**
+ * Rebuilds a typed error from its serialized form.
+ * @param info The serialized error.
+ * @returns The matching GenerationError subclass.
+ */
+export function fromErrorInfo(info: GenerationErrorInfo): GenerationError {
+    const { kind, message, detail, retryAfterMs } = info;
+    switch (kind) {
+        case 'blocked': return new BlockedError(message, { detail });
+        case 'quota': return new QuotaError(message, { detail, retryAfterMs });
+        case 'transient': return new TransientError(message, { detail, retryAfterMs });
+        case 'bad-input': return new BadInputError(message, { detail });
+        case 'no-image': return new NoImageError(message, { detail });
+        case 'config': return new ConfigError(message, { detail });
+        case 'cancelled': return new CancelledError(message);
+        default: return new GenerationError('transient', message, { detail, retryAfterMs });
+    }
+}
+
+/**
+ * Reads a retry hint from an API error message, e.g. `"retryDelay":"37s"`.
+ * @param message The raw error message.
+ * @returns The delay in milliseconds, if present.
+ */
+export function parseRetryDelay(message: string): number | undefined {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+}
+
+function getStatus(error: unknown, message: string): number | undefined {
+    const status = (error as { status?: unknown } | null)?.status;
+    if (typeof status === 'number') {
+        return status;
+    }
+    const match = message.match(/"code"\s*:\s*(\d{3})/);
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Maps any error thrown while generating into the typed hierarchy.
+ * @param error The caught error.
+ * @returns A GenerationError describing what went wrong.
+ */
+export function classifyError(error: unknown): GenerationError {
+    if (error instanceof GenerationError) {
+        return error;
+    }
+
+    if (isAbortError(error)) {
+        return new CancelledError(undefined, { cause: error });
+    }
+
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+    const status = getStatus(error, message);
+    const options = { detail: message, cause: error };
+
+    if (status === 429 || message.includes('RESOURCE_EXHAUSTED')) {
+        return new QuotaError('The image service is rate limiting us.', { ...options, retryAfterMs: parseRetryDelay(message) });
+    }
+    if (status === 401 || status === 403 || message.includes('API key not valid') || message.includes('PERMISSION_DENIED')) {
+        return new ConfigError('The API key was rejected.', options);
+    }
+    if (status === 400 || message.includes('INVALID_ARGUMENT')) {
+        return new BadInputError('The image service rejected the request.', options);
+    }
+    if ((status !== undefined && status >= 500) || message.includes('INTERNAL') || message.includes('UNAVAILABLE')) {
+        return new TransientError('The image service is having trouble.', { ...options, retryAfterMs: parseRetryDelay(message) });
+    }
+    if (error instanceof TypeError) {
+        // fetch() rejects with a TypeError when the network is unreachable.
+        return new TransientError('Could not reach the image service.', options);
+    }
+    return new TransientError('Something went wrong while generating.', options);
+}
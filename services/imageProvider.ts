@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { InlineImage } from '../lib/imageUtils';
+import { geminiProvider } from './geminiProvider';
+import { localProvider } from './localProvider';
+import { proxyProvider } from './proxyProvider';
+
+/** Everything a provider needs to produce one image. */
+export interface ImageGenerationRequest {
+    /** The source image(s) to transform. */
+    images: InlineImage[];
+    /** A still whose look to follow; the prompt already says how closely. */
+    styleReference?: InlineImage;
+    /** The fully composed instruction for the model. */
+    prompt: string;
+    /** The archetype name, used for logging and by providers that key off it. */
+    label: string;
+    /** Aborts the request when the user cancels. */
+    signal?: AbortSignal;
+}
+
+/** One earlier step of a conversational edit: what was asked and the image that came back. */
+export interface EditTurn {
+    prompt: string;
+    image: InlineImage;
+}
+
+/** Everything a provider needs to change one detail of a generated image. */
+export interface ImageEditRequest {
+    /** The image as it was before the first of `turns`. */
+    image: InlineImage;
+    /** Limits the edit to the area painted white; sent right after `image`. */
+    mask?: InlineImage;
+    /** Earlier steps of the same conversation, oldest first; the last one produced the image being edited. */
+    turns: EditTurn[];
+    /** The edit to make now. */
+    prompt: string;
+    /** The archetype name, used for logging and by providers that key off it. */
+    label: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * A backend capable of turning a source photo and a prompt into a new image.
+ */
+export interface ImageProvider {
+    /** Stable identifier used to select the provider through config. */
+    readonly id: string;
+    /** Human-readable name for the UI. */
+    readonly displayName: string;
+    /** Whether the provider has everything it needs (e.g. an API key) to generate. */
+    isConfigured(): boolean;
+    /**
+     * Generates an image for the request.
+     * @returns A promise that resolves to a data URL of the generated image.
+     */
+    generateImage(request: ImageGenerationRequest): Promise<string>;
+    /**
+     * Edits a generated image, keeping the conversation that led to it as context.
+     * @returns A promise that resolves to a data URL of the edited image.
+     */
+    editImage(request: ImageEditRequest): Promise<string>;
+}
+
+const PROVIDERS: Record<string, ImageProvider> = {
+    [geminiProvider.id]: geminiProvider,
+    [localProvider.id]: localProvider,
+    [proxyProvider.id]: proxyProvider,
+};
+
+const DEFAULT_PROVIDER_ID = process.env.IMAGE_PROVIDER || proxyProvider.id;
+
+let activeProvider: ImageProvider = PROVIDERS[DEFAULT_PROVIDER_ID] ?? proxyProvider;
+
+if (!PROVIDERS[DEFAULT_PROVIDER_ID]) {
+    console.warn(`Unknown image provider "${DEFAULT_PROVIDER_ID}", falling back to "${proxyProvider.id}".`);
+}
+
+/**
+ * Returns the provider that generatePimpImage currently dispatches to.
+ */
+export function getImageProvider(): ImageProvider {
+    return activeProvider;
+}
+
+/**
+ * Selects the provider by id, or installs a custom provider (e.g. a test double).
+ * @param provider A registered provider id or a provider implementation.
+ */
+export function setImageProvider(provider: string | ImageProvider): void {
+    if (typeof provider !== 'string') {
+        activeProvider = provider;
+        return;
+    }
+    const found = PROVIDERS[provider];
+    if (!found) {
+        throw new Error(`Unknown image provider: ${provider}`);
+    }
+    activeProvider = found;
+}
+
+/**
+ * Lists the built-in providers.
+ */
+export function listImageProviders(): ImageProvider[] {
+    return Object.values(PROVIDERS);
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage, toImageDataUrl } from '../lib/imageUtils';
+import { sleep } from '../lib/utils';
+import type { ImageEditRequest, ImageGenerationRequest, ImageProvider } from './imageProvider';
+
+// Simulated latency so loading states behave like they do against the real model.
+const SIMULATED_LATENCY_MS = 800;
+
+// A handful of period-looking grades; each archetype is mapped to one deterministically.
+const FILTERS = [
+    'sepia(0.6) contrast(1.3) saturate(1.4)',
+    'contrast(1.5) saturate(1.8) hue-rotate(-20deg)',
+    'grayscale(0.4) contrast(1.2) brightness(0.9)',
+    'saturate(2) hue-rotate(280deg) contrast(1.1)',
+    'sepia(0.3) brightness(1.1) contrast(1.4) saturate(1.2)',
+];
+
+function hashString(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+}
+
+/**
+ * An offline stand-in that returns a colour-graded copy of the source photo,
+ * or of the photos side by side for a crew shot, tinted by the style
+ * reference if there is one. The same input always
+ * yields the same output, which makes it suitable for demos and for
+ * exercising the app without a key or billing.
+ */
+export const localProvider: ImageProvider = {
+    id: 'local',
+    displayName: 'Local preview (offline)',
+    isConfigured: () => true,
+    async generateImage({ images, styleReference, label, signal }: ImageGenerationRequest): Promise<string> {
+        const imgs = await Promise.all(images.map(image => loadImage(toImageDataUrl(image))));
+        const reference = styleReference && await loadImage(toImageDataUrl(styleReference));
+        await sleep(SIMULATED_LATENCY_MS, signal);
+
+        // Every photo is scaled to the height of the first.
+        const height = imgs[0].naturalHeight;
+        const widths = imgs.map(img => Math.round(img.naturalWidth * height / img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = widths.reduce((sum, width) => sum + width, 0);
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get 2D canvas context');
+        }
+
+        ctx.filter = FILTERS[hashString(label) % FILTERS.length];
+        let x = 0;
+        imgs.forEach((img, index) => {
+            ctx.drawImage(img, x, 0, widths[index], height);
+            x += widths[index];
+        });
+        ctx.filter = 'none';
+
+        // Wash the reference's colours over the result, a rough stand-in for matching its grade.
+        if (reference) {
+            ctx.globalCompositeOperation = 'color';
+            ctx.globalAlpha = 0.5;
+            ctx.drawImage(reference, 0, 0, canvas.width, canvas.height);
+            ctx.globalCompositeOperation = 'source-over';
+            ctx.globalAlpha = 1;
+        }
+
+        // Vignette for a bit of film character
+        const radius = Math.max(canvas.width, canvas.height) * 0.75;
+        const gradient = ctx.createRadialGradient(
+            canvas.width / 2, canvas.height / 2, radius * 0.4,
+            canvas.width / 2, canvas.height / 2, radius,
+        );
+        gradient.addColorStop(0, 'rgba(0,0,0,0)');
+        gradient.addColorStop(1, 'rgba(0,0,0,0.7)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+        // Stamp the archetype so previews are easy to tell apart
+        const fontSize = Math.max(16, Math.round(canvas.width / 18));
+        ctx.font = `${fontSize}px 'Permanent Marker', cursive`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'bottom';
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+        ctx.fillText(label, canvas.width / 2, canvas.height - fontSize / 2);
+
+        return canvas.toDataURL('image/jpeg', 0.9);
+    },
+    async editImage({ image, mask, turns, prompt, signal }: ImageEditRequest): Promise<string> {
+        // Edit the latest image of the conversation, so refinements build on each other.
+        const img = await loadImage(toImageDataUrl(turns.length > 0 ? turns[turns.length - 1].image : image));
+        await sleep(SIMULATED_LATENCY_MS, signal);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get 2D canvas context');
+        }
+
+        // A small shift per instruction, so every step visibly changes something.
+        // A masked edit only shows inside the mask once composited, so it shifts further.
+        const shift = mask ? 90 + hashString(prompt) % 180 : (hashString(prompt) % 60) - 30;
+        ctx.filter = `hue-rotate(${shift}deg) contrast(1.05)`;
+        ctx.drawImage(img, 0, 0);
+        ctx.filter = 'none';
+        if (mask) {
+            return canvas.toDataURL('image/jpeg', 0.9);
+        }
+
+        // Number the step so refinements are easy to tell apart
+        const fontSize = Math.max(14, Math.round(canvas.width / 24));
+        ctx.font = `${fontSize}px 'Permanent Marker', cursive`;
+        ctx.textAlign = 'right';
+        ctx.textBaseline = 'top';
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+        ctx.fillText(`Edit ${turns.length + 1}`, canvas.width - fontSize / 2, fontSize / 2);
+
+        return canvas.toDataURL('image/jpeg', 0.9);
+    },
+};
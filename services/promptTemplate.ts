@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Shared by the browser and the server proxy.
+
+export type TemplateVariables = Record<string, string | undefined>;
+
+export interface TemplateContext {
+    /** Values for `{{name}}` placeholders and `{{#name}}...{{/name}}` sections. */
+    variables?: TemplateVariables;
+    /** Reusable snippets pulled in with `{{> name}}`. Fragments may use variables and other fragments. */
+    fragments?: Record<string, string>;
+}
+
+const MAX_FRAGMENT_DEPTH = 8;
+const FRAGMENT = /\{\{>\s*([\w-]+)\s*\}\}/g;
+const SECTION = /\{\{#\s*([\w-]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g;
+const VARIABLE = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+function expandFragments(template: string, fragments: Record<string, string>, depth: number): string {
+    return template.replace(FRAGMENT, (_, name: string) => {
+        const fragment = fragments[name];
+        if (fragment === undefined) {
+            throw new Error(`Unknown prompt fragment: ${name}`);
+        }
+        if (depth >= MAX_FRAGMENT_DEPTH) {
+            throw new Error(`Prompt fragments nest too deeply at: ${name}`);
+        }
+        return expandFragments(fragment, fragments, depth + 1);
+    });
+}
+
+/**
+ * Renders a prompt template. Sections are dropped when their variable is
+ * empty, missing variables render as nothing, and runs of whitespace left
+ * behind are collapsed.
+ * @param template The template text.
+ * @param context The variables and fragments to fill it with.
+ * @returns The rendered text.
+ * @throws {Error} If the template names a fragment that doesn't exist or fragments include each other in a loop.
+ */
+export function renderTemplate(template: string, { variables = {}, fragments = {} }: TemplateContext = {}): string {
+    const hasValue = (name: string) => Boolean(variables[name]?.trim());
+    return expandFragments(template, fragments, 0)
+        .replace(SECTION, (_, name: string, body: string) => hasValue(name) ? body : '')
+        .replace(VARIABLE, (_, name: string) => variables[name]?.trim() ?? '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
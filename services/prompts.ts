@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Shared by the browser and the server proxy.
+import { renderTemplate } from './promptTemplate.ts';
+import type { TemplateVariables } from './promptTemplate.ts';
+
+/** Longest prompt the app (and the server proxy) will accept for an archetype. */
+export const MAX_PROMPT_LENGTH = 4000;
+
+/** Longest instruction accepted when refining a card. */
+export const MAX_INSTRUCTION_LENGTH = 300;
+
+/** How many earlier refinements of a card are sent back to the model as context. */
+export const MAX_EDIT_TURNS = 4;
+
+/** How many people a crew shot puts in one scene. */
+export const MIN_CREW_SIZE = 2;
+export const MAX_CREW_SIZE = 4;
+
+/**
+ * The parts an archetype is described by. Each part is a short phrase that the
+ * prompt template turns into a sentence; parts may themselves use the shared
+ * variables, e.g. `{{city}}`.
+ */
+export interface ArchetypeSpec {
+    /** Who they are, e.g. `a powerful {{city}} pimp from {{era}}`. */
+    persona: string;
+    outfit?: string;
+    hair?: string;
+    props?: string;
+    expression?: string;
+    setting?: string;
+    lighting?: string;
+    filmStock?: string;
+    /**
+     * Makes the archetype a crew shot: the part each person plays, in the
+     * order their photos are sent, e.g. `the boss in a white suit`.
+     */
+    roles?: string[];
+    /** How closely to follow the style reference, when one is attached; `match` by default. */
+    styleStrength?: StyleStrength;
+    /** What to take from the style reference, e.g. `only its colour grading`. */
+    styleNote?: string;
+}
+
+/** The text fields; roles and the style reference settings are edited separately. */
+export type ArchetypeField = Exclude<keyof ArchetypeSpec, 'roles' | 'styleStrength' | 'styleNote'>;
+
+/** How closely an archetype follows the style reference. */
+export type StyleStrength = 'match' | 'hint' | 'ignore';
+
+export const DEFAULT_STYLE_STRENGTH: StyleStrength = 'match';
+
+/** The choices in the order the editor shows them. */
+export const STYLE_STRENGTHS: { value: StyleStrength; label: string }[] = [
+    { value: 'match', label: 'Match it' },
+    { value: 'hint', label: 'A hint of it' },
+    { value: 'ignore', label: 'Ignore it' },
+];
+
+/** The fields in the order the editor shows them. */
+export const ARCHETYPE_FIELDS: { key: ArchetypeField; label: string; placeholder: string }[] = [
+    { key: 'persona', label: 'Persona', placeholder: 'a flashy {{city}} pimp from {{era}}, "Kiosk-Klaus"' },
+    { key: 'outfit', label: 'Outfit', placeholder: 'a burgundy velvet suit' },
+    { key: 'hair', label: 'Hairstyle', placeholder: 'a slicked-back pompadour' },
+    { key: 'props', label: 'Props', placeholder: 'a chunky car phone' },
+    { key: 'expression', label: 'Expression', placeholder: 'smug and unbothered' },
+    { key: 'setting', label: 'Setting', placeholder: 'outside a kiosk on the Reeperbahn' },
+    { key: 'lighting', label: 'Lighting', placeholder: 'flickering neon' },
+    { key: 'filmStock', label: 'Film stock', placeholder: 'a grainy 1980s photo on cheap colour film' },
+];
+
+/**
+ * How a theme pack words its prompts. Every archetype field may refer to the
+ * variables, e.g. `{{city}}`, as well as to `{{name}}`, the archetype's name.
+ */
+export interface PromptStyle {
+    variables: TemplateVariables;
+    /** Snippets that replace or add to the shared ones. */
+    fragments?: Record<string, string>;
+    /** Replaces the shared template for every archetype in the pack. */
+    template?: string;
+    /** The persona given to looks from the look builder. */
+    lookPersona: string;
+}
+
+/** Snippets shared by every archetype's prompt. */
+export const PROMPT_FRAGMENTS: Record<string, string> = {
+    intro: 'Reimagine the person in this photo as {{persona}}.',
+    portrait: 'The image should be a photorealistic portrait.',
+    crewIntro: 'Reimagine the {{count}} people in these photos together in one image as {{persona}}.',
+    crewShot: 'The image should be a photorealistic group shot. Keep every face recognisable and show each person exactly once.',
+    styleMatch: 'The last image is a style reference, not a person to include: match its colour grading, lighting, grain and composition.',
+    styleHint: 'The last image is a style reference, not a person to include: borrow a hint of its colour grading and mood.',
+    edit: 'Edit this image: {{instruction}}. Keep everything else exactly as it is, including the face, pose, framing and photographic style.',
+    inpaint: 'The second image is a mask for the first. Edit only the area that is white in the mask: {{instruction}}. Leave the black area exactly as it is and blend the change into its surroundings.',
+};
+
+// Added after the template, so custom templates get it too.
+const STYLE_REFERENCE_TEMPLATE = '{{> style}} {{#styleNote}}From the style reference, take {{styleNote}}.{{/styleNote}}';
+const STYLE_FRAGMENTS: Record<Exclude<StyleStrength, 'ignore'>, string> = { match: 'styleMatch', hint: 'styleHint' };
+
+const DETAIL_LINES = [
+    '{{#outfit}}They are wearing {{outfit}}.{{/outfit}}',
+    '{{#hair}}Their hairstyle is {{hair}}.{{/hair}}',
+    '{{#props}}In the shot with them: {{props}}.{{/props}}',
+    '{{#expression}}Their expression is {{expression}}.{{/expression}}',
+    '{{#setting}}The scene is set {{setting}}.{{/setting}}',
+    '{{#lighting}}Lighting: {{lighting}}.{{/lighting}}',
+    '{{#filmStock}}The aesthetic must feel like {{filmStock}}.{{/filmStock}}',
+];
+
+/** How an archetype's fields become a prompt. */
+export const PROMPT_TEMPLATE = ['{{> intro}} {{> portrait}}', ...DETAIL_LINES].join('\n');
+
+/** How a crew shot's fields become a prompt; `{{roles}}` says who is who. */
+export const CREW_PROMPT_TEMPLATE = ['{{> crewIntro}} {{> crewShot}}', '{{roles}}', ...DETAIL_LINES].join('\n');
+
+const COUNT_WORDS = ['no', 'one', 'two', 'three', 'four'];
+
+/**
+ * Whether an archetype wants the style reference sent along with its photos.
+ */
+export const usesStyleReference = (spec: ArchetypeSpec) => (spec.styleStrength ?? DEFAULT_STYLE_STRENGTH) !== 'ignore';
+
+/**
+ * Whether an archetype puts several people in one scene.
+ */
+export const isCrewArchetype = (spec: ArchetypeSpec) => Boolean(spec.roles?.some(role => role.trim()));
+
+/**
+ * Builds the prompt sent to the image model for an archetype. Crew shots use
+ * `CREW_PROMPT_TEMPLATE` rather than the pack's template.
+ * @param spec The archetype's fields, and its name for fields that refer to `{{name}}`.
+ * @param style The theme pack's variables, fragments and template.
+ * @param template A template to use instead of the pack's.
+ * @param options Whether a style reference is sent after the photos.
+ * @returns The composed prompt.
+ * @throws {Error} If the template refers to a fragment that doesn't exist.
+ */
+export function composePrompt(spec: ArchetypeSpec & { name?: string }, style: PromptStyle, template?: string, { styleReference = false } = {}): string {
+    const shared: TemplateVariables = { ...style.variables, name: spec.name };
+    const variables: TemplateVariables = { ...shared };
+    for (const { key } of ARCHETYPE_FIELDS) {
+        const value = spec[key];
+        variables[key] = value && renderTemplate(value, { variables: shared });
+    }
+    const roles = spec.roles?.filter(role => role.trim()) ?? [];
+    if (roles.length > 0) {
+        variables.count = COUNT_WORDS[roles.length] ?? String(roles.length);
+        variables.roles = roles
+            .map((role, index) => `The person in photo ${index + 1} is ${renderTemplate(role, { variables: shared })}.`)
+            .join(' ');
+    }
+    const sharedTemplate = roles.length > 0 ? CREW_PROMPT_TEMPLATE : style.template || PROMPT_TEMPLATE;
+    const fragments = { ...PROMPT_FRAGMENTS, ...style.fragments };
+    const prompt = renderTemplate(template || sharedTemplate, { variables, fragments });
+    if (!styleReference || !usesStyleReference(spec)) {
+        return prompt;
+    }
+    const strength = (spec.styleStrength ?? DEFAULT_STYLE_STRENGTH) as keyof typeof STYLE_FRAGMENTS;
+    const reference = renderTemplate(STYLE_REFERENCE_TEMPLATE, {
+        variables: { styleNote: spec.styleNote && renderTemplate(spec.styleNote, { variables: shared }) },
+        fragments: { ...fragments, style: fragments[STYLE_FRAGMENTS[strength]] },
+    });
+    return `${prompt} ${reference}`;
+}
+
+/**
+ * Words a refinement instruction as an edit of the image the model last produced.
+ * @param instruction What to change, e.g. `bigger gold chain`.
+ * @param style The theme pack, whose fragments may reword the edit.
+ * @param options Whether a mask follows the image, limiting the edit to a painted area.
+ * @returns The prompt for this step of the conversation.
+ */
+export function composeEditPrompt(instruction: string, style: PromptStyle, { masked = false }: { masked?: boolean } = {}): string {
+    return renderTemplate(masked ? '{{> inpaint}}' : '{{> edit}}', {
+        variables: { ...style.variables, instruction: instruction.trim().replace(/[.!]+$/, '') },
+        fragments: { ...PROMPT_FRAGMENTS, ...style.fragments },
+    });
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { toImageDataUrl } from '../lib/imageUtils';
+import { GenerationError, classifyError, fromErrorInfo } from './generationErrors';
+import type { ImageEditRequest, ImageGenerationRequest, ImageProvider } from './imageProvider';
+
+const GENERATE_ENDPOINT = '/api/generate';
+const EDIT_ENDPOINT = '/api/edit';
+
+// Retry-After may be delta-seconds or an HTTP date.
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Posts a request to the server and unwraps the image, or the typed error it sent back.
+async function postForImage(endpoint: string, body: object, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        if (result.error?.kind) {
+            throw fromErrorInfo({ retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')), ...result.error });
+        }
+        // Not one of our responses (e.g. a gateway in front of the server); classify by status.
+        const error = classifyError(Object.assign(new Error(`The server responded with ${response.status}.`), { status: response.status }));
+        const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+        throw retryAfterMs === undefined ? error : fromErrorInfo({ ...error.toInfo(), retryAfterMs });
+    }
+    if (typeof result.image !== 'string') {
+        throw new GenerationError('no-image', 'The server response did not contain an image.');
+    }
+    return result.image;
+}
+
+/**
+ * Generates images through the app's own server, which holds the Gemini key.
+ */
+export const proxyProvider: ImageProvider = {
+    id: 'proxy',
+    displayName: 'Gemini via server',
+    isConfigured: () => true,
+    generateImage({ images, styleReference, prompt, label, signal }: ImageGenerationRequest): Promise<string> {
+        return postForImage(GENERATE_ENDPOINT, {
+            images: images.map(toImageDataUrl),
+            styleReference: styleReference && toImageDataUrl(styleReference),
+            archetype: label,
+            prompt,
+        }, signal);
+    },
+    editImage({ image, mask, turns, prompt, label, signal }: ImageEditRequest): Promise<string> {
+        return postForImage(EDIT_ENDPOINT, {
+            image: toImageDataUrl(image),
+            mask: mask && toImageDataUrl(mask),
+            turns: turns.map(turn => ({ prompt: turn.prompt, image: toImageDataUrl(turn.image) })),
+            archetype: label,
+            prompt,
+        }, signal);
+    },
+};
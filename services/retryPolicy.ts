@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { sleep } from '../lib/utils';
+import { classifyError } from './generationErrors';
+import type { GenerationError, GenerationErrorKind } from './generationErrors';
+
+export interface RetryPolicy {
+    /** Total attempts per call, including the first. */
+    maxAttempts: number;
+    /** Backoff before the second attempt; doubles for each one after. */
+    baseDelayMs: number;
+    /** Upper bound for the exponential backoff (server hints may exceed it). */
+    maxDelayMs: number;
+    /** Fraction of each delay that is randomized, from 0 (none) to 1 (full jitter). */
+    jitter: number;
+    /** Which error kinds are worth another attempt. */
+    retryOn: GenerationErrorKind[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+    jitter: 0.5,
+    retryOn: ['quota', 'transient'],
+};
+
+/** Default wall-clock allowance for retries across one batch of generations. */
+export const DEFAULT_BATCH_BUDGET_MS = 2 * 60_000;
+
+/**
+ * A deadline shared by several calls, so a batch as a whole gives up instead
+ * of each worker retrying on its own schedule.
+ */
+export interface RetryBudget {
+    readonly deadline: number;
+}
+
+/**
+ * Creates a budget that expires `totalMs` from now.
+ * @param totalMs The time allowed for the batch, including retries.
+ */
+export function createRetryBudget(totalMs: number = DEFAULT_BATCH_BUDGET_MS): RetryBudget {
+    return { deadline: Date.now() + totalMs };
+}
+
+export interface RetryOptions {
+    policy?: Partial<RetryPolicy>;
+    budget?: RetryBudget;
+    /** Called before each backoff sleep, e.g. to show "retrying" in the UI. */
+    onRetry?: (attempt: number, delayMs: number, error: GenerationError) => void;
+    /** Cancels the current attempt and any pending backoff sleep. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Computes how long to wait before the next attempt.
+ * @param attempt The attempt that just failed (1-based).
+ * @param error The classified failure, possibly carrying a server retry hint.
+ * @param policy The retry policy.
+ * @param random A source of randomness in [0, 1), injectable for tests.
+ * @returns The delay in milliseconds.
+ */
+export function computeRetryDelay(attempt: number, error: GenerationError, policy: RetryPolicy, random: () => number = Math.random): number {
+    if (error.retryAfterMs !== undefined) {
+        // Never come back earlier than the server asked; jitter only pushes
+        // later so parallel workers don't all return in the same instant.
+        return error.retryAfterMs + policy.jitter * policy.baseDelayMs * random();
+    }
+    const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+    return backoff * (1 - policy.jitter * random());
+}
+
+/**
+ * Runs an operation, retrying classified failures according to the policy.
+ * @param operation The call to make; receives the 1-based attempt number.
+ * @param options The policy, a shared budget, an abort signal and an optional retry callback.
+ * @returns The operation's result.
+ * @throws {GenerationError} The last failure once it is not retriable, attempts run out, or the budget would be exceeded.
+ * @throws The signal's reason as soon as it is aborted.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const policy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+    const { signal } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        signal?.throwIfAborted();
+        try {
+            return await operation(attempt);
+        } catch (err) {
+            if (signal?.aborted) {
+                throw signal.reason;
+            }
+            const error = classifyError(err);
+            console.error(`Generation attempt ${attempt}/${policy.maxAttempts} failed (${error.kind}):`, err);
+
+            if (!policy.retryOn.includes(error.kind) || attempt >= policy.maxAttempts) {
+                throw error;
+            }
+
+            const delay = computeRetryDelay(attempt, error, policy);
+            if (options.budget && Date.now() + delay > options.budget.deadline) {
+                console.warn(`Retry budget exhausted; not retrying after ${Math.round(delay)}ms.`);
+                throw error;
+            }
+
+            options.onRetry?.(attempt, delay, error);
+            console.log(`Retrying in ${Math.round(delay)}ms...`);
+            await sleep(delay, signal);
+        }
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ThemePack } from './types.ts';
+
+export const actionMovie: ThemePack = {
+    id: 'actionMovie',
+    name: 'Direct-to-Video',
+    copy: {
+        title: 'Direct-to-Video',
+        tagline: "This summer, one hero won't back down.",
+        uploadHint: 'Click the card to upload your photo and get cast.',
+        generateButton: 'Roll Camera',
+        remixIdea: 'to place yourself in an 80s action movie poster.',
+    },
+    fonts: {
+        display: "'Bebas Neue', sans-serif",
+        body: "'Oswald', sans-serif",
+        caption: "'Bebas Neue', sans-serif",
+        stylesheet: 'https://fonts.googleapis.com/css2?family=Bebas+Neue&family=Oswald:wght@400;600&display=swap',
+    },
+    palette: {
+        background: '#120800',
+        title: '#ffb000',
+        glow: '#ff4d00',
+        tagline: '#f5e6c8',
+    },
+    prompt: {
+        variables: {
+            city: 'Los Angeles',
+            era: 'the 1980s',
+        },
+        fragments: {
+            portrait: 'The image should look like a painted 80s action movie poster with the person as the lead.',
+        },
+        lookPersona: 'the hero of "{{name}}", an action movie from {{era}}',
+    },
+    archetypes: [
+        {
+            name: 'Maximum Impact',
+            persona: 'the hero of "{{name}}", an action movie from {{era}}',
+            outfit: 'a sweat-soaked tank top and a bandolier',
+            hair: 'a red headband',
+            props: 'an explosion behind them',
+            expression: 'gritted teeth and pure determination',
+            setting: 'in a burning jungle',
+            lighting: 'orange firelight',
+            filmStock: 'a painted poster with a bold title and a tagline',
+        },
+        {
+            name: 'Badge of Fury',
+            persona: 'the rogue cop in "{{name}}", an action movie from {{era}} set in {{city}}',
+            outfit: 'a leather jacket and a shoulder holster',
+            props: 'aviator sunglasses and a police badge',
+            expression: 'world-weary and tough',
+            setting: 'on a rooftop above the city at night',
+            lighting: 'helicopter searchlights',
+            filmStock: 'a glossy VHS box cover',
+        },
+        {
+            name: 'Turbo Justice',
+            persona: 'the getaway driver in "{{name}}", an action movie from {{era}}',
+            outfit: 'a racing jacket covered in sponsor patches',
+            props: 'a muscle car skidding through a cloud of tire smoke',
+            expression: 'a cocky half-smile',
+            setting: 'on a desert highway',
+            lighting: 'blazing midday sun',
+            filmStock: 'a sun-faded cinema lobby poster',
+        },
+    ],
+    lookbook: {
+        title: [
+            { text: 'DIRECT-TO', color: '#ffb000' },
+            { text: 'VIDEO', color: '#ff4d00' },
+        ],
+        background: '#1c0f05',
+        paper: '#f5e6c8',
+        captionColor: '#1c0f05',
+        grain: true,
+        fileName: 'direct-to-video-lookbook',
+    },
+};
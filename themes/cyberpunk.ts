@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ThemePack } from './types.ts';
+
+export const cyberpunk: ThemePack = {
+    id: 'cyberpunk',
+    name: 'Neo-Kiez 2084',
+    copy: {
+        title: 'Neo-Kiez 2084',
+        tagline: 'Chrome, rain and neon in the megacity sprawl.',
+        uploadHint: 'Click the card to upload your photo and jack in.',
+        generateButton: 'Jack In',
+        remixIdea: 'to create a cyberpunk version of yourself.',
+    },
+    fonts: {
+        display: "'Orbitron', sans-serif",
+        body: "'Share Tech Mono', monospace",
+        caption: "'Share Tech Mono', monospace",
+        stylesheet: 'https://fonts.googleapis.com/css2?family=Orbitron:wght@700&family=Share+Tech+Mono&display=swap',
+    },
+    palette: {
+        background: '#02040a',
+        title: '#00f0ff',
+        glow: '#00f0ff',
+        tagline: '#fcee0a',
+    },
+    prompt: {
+        variables: {
+            city: 'Neo-Hamburg',
+            era: 'the year 2084',
+        },
+        fragments: {
+            portrait: 'The image should be a photorealistic, cinematic portrait in a cyberpunk style.',
+        },
+        lookPersona: 'a {{city}} street operator from {{era}} known as "{{name}}"',
+    },
+    archetypes: [
+        {
+            name: 'Netrunner Nix',
+            persona: 'a {{city}} netrunner from {{era}} known as "{{name}}"',
+            outfit: 'a black techwear jacket with glowing seams',
+            hair: 'an asymmetric undercut dyed electric blue',
+            props: 'a neural interface cable plugged in behind the ear and a holographic display',
+            expression: 'focused and calculating',
+            setting: 'in a cramped apartment full of humming servers',
+            lighting: 'cold cyan screen glow',
+            filmStock: 'a sharp, high-contrast sci-fi film still',
+        },
+        {
+            name: 'Chrome Charlie',
+            persona: 'a {{city}} street samurai from {{era}} known as "{{name}}"',
+            outfit: 'a long armored coat over a chrome cybernetic arm',
+            props: 'a katana with a glowing edge',
+            expression: 'calm and dangerous',
+            setting: 'on a rain-soaked street under a sea of holographic ads',
+            lighting: 'magenta and teal neon reflected in puddles',
+            filmStock: 'an anamorphic film frame with lens flares',
+        },
+        {
+            name: 'Fixer Fenja',
+            persona: 'a {{city}} fixer from {{era}} known as "{{name}}"',
+            outfit: 'a tailored suit with an LED collar',
+            hair: 'a sleek silver bob',
+            props: 'a translucent smartphone and a drink with a glowing ice cube',
+            expression: 'knowing and amused',
+            setting: 'in the VIP booth of a noodle bar',
+            lighting: 'warm red lanterns against blue neon',
+            filmStock: 'a glossy, moody sci-fi photograph',
+        },
+    ],
+    lookbook: {
+        title: [
+            { text: 'NEO-KIEZ', color: '#00f0ff' },
+            { text: '2084', color: '#fcee0a' },
+        ],
+        background: '#05070f',
+        paper: '#d9e1e8',
+        captionColor: '#02040a',
+        grain: false,
+        fileName: 'neo-kiez-2084-lookbook',
+    },
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ThemePack } from './types.ts';
+
+export const gtaStyle: ThemePack = {
+    id: 'gtaStyle',
+    name: 'Loading Screen',
+    copy: {
+        title: 'Loading Screen',
+        tagline: 'Every city has its legends. Now it has you.',
+        uploadHint: 'Click the card to upload your photo and create your character.',
+        generateButton: 'New Game',
+        remixIdea: 'to generate a custom GTA-style character.',
+    },
+    fonts: {
+        display: "'Anton', sans-serif",
+        body: "'Roboto Condensed', sans-serif",
+        caption: "'Anton', sans-serif",
+        stylesheet: 'https://fonts.googleapis.com/css2?family=Anton&family=Roboto+Condensed:wght@400;700&display=swap',
+    },
+    palette: {
+        background: '#0b0b0b',
+        title: '#ffffff',
+        glow: '#000000',
+        tagline: '#9acd32',
+    },
+    prompt: {
+        variables: {
+            city: 'a sun-bleached coastal city',
+            era: 'today',
+        },
+        fragments: {
+            portrait: 'The image should be a bold, illustrated video game loading-screen character portrait with thick outlines and cel shading.',
+        },
+        lookPersona: 'a video game character from {{city}} called "{{name}}"',
+    },
+    archetypes: [
+        {
+            name: 'The Hustler',
+            persona: 'a video game character from {{city}} called "{{name}}"',
+            outfit: 'a loud patterned shirt and gold chains',
+            props: 'a wad of cash and a flip phone',
+            expression: 'sly and confident',
+            setting: 'in front of a palm-lined boulevard',
+            lighting: 'golden hour sunshine',
+            filmStock: 'a comic-style illustration with a flat color background',
+        },
+        {
+            name: 'The Wheelman',
+            persona: 'a video game character from {{city}} called "{{name}}"',
+            outfit: 'a leather racing jacket and fingerless gloves',
+            props: 'a lowrider with chrome rims',
+            expression: 'relaxed and cool',
+            setting: 'in a gas station parking lot at sunset',
+            lighting: 'warm orange sky',
+            filmStock: 'a comic-style illustration with halftone shading',
+        },
+        {
+            name: 'The Boss',
+            persona: 'a video game crime boss from {{city}} called "{{name}}"',
+            outfit: 'a white suit with a black shirt',
+            props: 'a cigar and a pair of guard dogs',
+            expression: 'cold and commanding',
+            setting: 'on the balcony of a luxury mansion',
+            lighting: 'dramatic sunset backlight',
+            filmStock: 'a comic-style illustration with a split-panel layout',
+        },
+    ],
+    lookbook: {
+        title: [
+            { text: 'LOADING', color: '#ffffff' },
+            { text: 'SCREEN', color: '#9acd32' },
+        ],
+        background: '#161616',
+        paper: '#ffffff',
+        captionColor: '#000000',
+        grain: false,
+        fileName: 'loading-screen-lookbook',
+    },
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ThemePack } from './types.ts';
+
+export const hamburg84: ThemePack = {
+    id: 'hamburg84',
+    name: "Hamburg '84",
+    copy: {
+        title: "Hamburg '84",
+        tagline: 'Step onto the neon-drenched Reeperbahn.',
+        uploadHint: 'Click the card to upload your photo and join the nightlife.',
+        generateButton: 'Hit the Streets',
+        remixIdea: "back to the Reeperbahn in '84.",
+    },
+    fonts: {
+        display: "'Monoton', cursive",
+        body: "'Special Elite', cursive",
+        caption: "'Permanent Marker', cursive",
+    },
+    palette: {
+        background: '#000000',
+        title: '#f5f5f5',
+        glow: 'transparent',
+        tagline: '#d4d4d4',
+    },
+    prompt: {
+        variables: {
+            city: 'Hamburg',
+            era: 'the 1980s',
+        },
+        lookPersona: 'a {{city}} pimp from {{era}}, "{{name}}"',
+    },
+    archetypes: [
+        {
+            name: 'Kiez-König',
+            persona: 'a powerful {{city}} pimp from {{era}}, the "{{name}}"',
+            outfit: 'a black leather jacket over an open-collared shirt',
+            props: 'heavy gold chains',
+            expression: 'confident and intimidating',
+            setting: 'in a dimly lit, smoky bar on the Reeperbahn',
+            lighting: 'low and hazy, cutting through cigarette smoke',
+            filmStock: 'a gritty 1980s film photograph',
+        },
+        {
+            name: 'Luden-Larry',
+            persona: 'a flashy {{city}} pimp from {{era}}, "{{name}}"',
+            outfit: 'a garish, brightly colored silk shirt, a white blazer, and gold-rimmed aviator sunglasses',
+            props: 'a classic 80s sports car they are leaning against',
+            expression: 'cocky',
+            setting: 'on the Reeperbahn at night, in front of bright neon signs',
+            lighting: 'a hard on-camera flash against the neon',
+            filmStock: 'a vibrant, slightly over-saturated high-flash 80s photo',
+        },
+        {
+            name: 'Gold-Zahn Günther',
+            persona: 'a tough, street-level {{city}} pimp from {{era}}, "{{name}}"',
+            outfit: 'a cheap-looking tracksuit',
+            hair: 'a mullet',
+            props: 'a prominent gold tooth',
+            expression: 'a scowl',
+            setting: 'on a gritty side street off the Reeperbahn',
+            lighting: 'harsh',
+            filmStock: 'a raw, candid snapshot with slightly faded colors',
+        },
+        {
+            name: 'Disco Dieter',
+            persona: 'a stylish {{city}} pimp from {{era}}, "{{name}}"',
+            outfit: 'a shiny shirt and tight pants',
+            hair: 'perfectly coiffed',
+            props: 'a cocktail in their hand',
+            expression: 'suave',
+            setting: 'inside a pulsating 80s disco, with a disco ball in the background',
+            lighting: 'colorful, sweeping club lights',
+            filmStock: 'a dynamic, colorful 80s nightclub photo',
+        },
+        {
+            name: 'Porsche-Paul',
+            persona: 'a wealthy {{city}} pimp from {{era}}, "{{name}}"',
+            outfit: 'an expensive suit with the jacket open, revealing a flamboyant shirt',
+            props: 'a white Porsche 911 with its headlights on, which they are standing proudly next to',
+            expression: 'one of smug success',
+            setting: 'on a {{city}} street at dusk',
+            lighting: 'fading dusk light and car headlights',
+            filmStock: 'a sharp, glossy car magazine photo of the era',
+        },
+        {
+            name: 'Die Kiez-Gang',
+            persona: 'a crew of {{city}} pimps from {{era}}, "{{name}}", posing together',
+            roles: [
+                'the boss, in a white suit with a fur-collared coat over the shoulders',
+                'the right-hand man, in a black leather jacket and heavy gold chains',
+                'the lookout, in a shell suit and mirrored aviator sunglasses',
+                'the driver, leaning on the bonnet of a black Mercedes in a tracksuit top',
+            ],
+            expression: 'cocky and unbothered, like they own the street',
+            setting: 'outside a Reeperbahn club at night, under its neon sign',
+            lighting: 'neon spill and a hard on-camera flash',
+            filmStock: 'a grainy 1980s snapshot on cheap colour film',
+        },
+    ],
+    lookbook: {
+        title: [
+            { text: 'HAMBURG', color: '#f0f' },
+            { text: "'84", color: '#0ff' },
+        ],
+        background: '#2d2d2d',
+        paper: '#f0f0e5',
+        captionColor: '#111',
+        grain: true,
+        fileName: 'hamburg-84-lookbook',
+    },
+};
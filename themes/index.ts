@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useSyncExternalStore } from 'react';
+import { useSettings, getSettings } from '../lib/settings';
+import { actionMovie } from './actionMovie';
+import { cyberpunk } from './cyberpunk';
+import { gtaStyle } from './gtaStyle';
+import { hamburg84 } from './hamburg84';
+import { mechaPets } from './mechaPets';
+import { rave90s } from './rave90s';
+import { synthwave } from './synthwave';
+import type { ThemePack } from './types';
+
+export type { LookbookStyle, ThemePack } from './types';
+
+/** The bundled packs, in the order the switcher lists them. */
+export const THEME_PACKS: ThemePack[] = [hamburg84, rave90s, cyberpunk, synthwave, actionMovie, gtaStyle, mechaPets];
+
+export const DEFAULT_THEME_PACK = hamburg84;
+
+// Packs the user imported, kept after the bundled ones.
+const CUSTOM_PACKS_KEY = 'hamburg84:theme-packs';
+const CUSTOM_PACKS_VERSION = 1;
+
+type Listener = (packs: ThemePack[]) => void;
+const listeners = new Set<Listener>();
+
+function loadCustomPacks(): ThemePack[] {
+    try {
+        const stored = localStorage.getItem(CUSTOM_PACKS_KEY);
+        const parsed = stored ? JSON.parse(stored) : null;
+        return parsed?.version === CUSTOM_PACKS_VERSION && Array.isArray(parsed.packs) ? parsed.packs : [];
+    } catch {
+        // Corrupt or unavailable storage; only the bundled packs are offered.
+        return [];
+    }
+}
+
+let customPacks = loadCustomPacks();
+let allPacks = [...THEME_PACKS, ...customPacks];
+
+function saveCustomPacks(packs: ThemePack[]): void {
+    customPacks = packs;
+    allPacks = [...THEME_PACKS, ...customPacks];
+    try {
+        localStorage.setItem(CUSTOM_PACKS_KEY, JSON.stringify({ version: CUSTOM_PACKS_VERSION, packs }));
+    } catch (err) {
+        console.warn("Could not persist theme packs:", err);
+    }
+    listeners.forEach(listener => listener(allPacks));
+}
+
+/**
+ * Returns the bundled packs followed by the imported ones.
+ */
+export function getThemePacks(): ThemePack[] {
+    return allPacks;
+}
+
+/**
+ * Checks whether a pack ships with the app, as opposed to being imported.
+ */
+export function isBundledThemePack(id: string): boolean {
+    return THEME_PACKS.some(pack => pack.id === id);
+}
+
+/**
+ * Adds an imported pack, replacing an earlier import with the same id.
+ * @throws {Error} If the id belongs to a bundled pack.
+ */
+export function saveCustomThemePack(pack: ThemePack): void {
+    if (isBundledThemePack(pack.id)) {
+        throw new Error(`"${pack.id}" is a bundled pack and can't be replaced.`);
+    }
+    const index = customPacks.findIndex(existing => existing.id === pack.id);
+    saveCustomPacks(index < 0 ? [...customPacks, pack] : customPacks.map((existing, i) => i === index ? pack : existing));
+}
+
+/**
+ * Removes an imported pack.
+ */
+export function deleteCustomThemePack(id: string): void {
+    saveCustomPacks(customPacks.filter(pack => pack.id !== id));
+}
+
+/**
+ * Subscribes to packs being imported or removed.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToThemePacks(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+/**
+ * React hook returning every available pack, re-rendering when one is imported.
+ */
+export function useThemePacks(): ThemePack[] {
+    return useSyncExternalStore(subscribeToThemePacks, getThemePacks);
+}
+
+/**
+ * Looks up a pack by id, falling back to the default for unknown ids.
+ */
+export function getThemePack(id: string): ThemePack {
+    return allPacks.find(pack => pack.id === id) ?? DEFAULT_THEME_PACK;
+}
+
+/**
+ * Returns the pack chosen in the settings.
+ */
+export function getActiveThemePack(): ThemePack {
+    return getThemePack(getSettings().themePack);
+}
+
+/**
+ * React hook returning the active pack, re-rendering when the user switches.
+ */
+export function useThemePack(): ThemePack {
+    const packs = useThemePacks();
+    const { themePack } = useSettings();
+    return packs.find(pack => pack.id === themePack) ?? DEFAULT_THEME_PACK;
+}
+
+const FONT_LINK_ID = 'theme-pack-fonts';
+
+/**
+ * Makes sure the pack's fonts are requested. Packs without their own
+ * stylesheet use the fonts index.html already loads.
+ */
+export function loadThemeFonts(pack: ThemePack): void {
+    const existing = document.getElementById(FONT_LINK_ID) as HTMLLinkElement | null;
+    if (!pack.fonts.stylesheet) {
+        existing?.remove();
+        return;
+    }
+    if (existing?.href === pack.fonts.stylesheet) return;
+
+    const link = existing ?? document.createElement('link');
+    link.id = FONT_LINK_ID;
+    link.rel = 'stylesheet';
+    link.href = pack.fonts.stylesheet;
+    if (!existing) document.head.appendChild(link);
+}
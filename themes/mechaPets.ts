@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ThemePack } from './types.ts';
+
+export const mechaPets: ThemePack = {
+    id: 'mechaPets',
+    name: 'Mecha Menagerie',
+    copy: {
+        title: 'Mecha Menagerie',
+        tagline: 'Good boy. Titanium chassis. Rocket boosters.',
+        uploadHint: 'Click the card to upload a photo of your pet.',
+        generateButton: 'Assemble',
+        remixIdea: 'to turn your pet into a mecha-animal.',
+    },
+    fonts: {
+        display: "'Russo One', sans-serif",
+        body: "'Exo 2', sans-serif",
+        caption: "'Russo One', sans-serif",
+        stylesheet: 'https://fonts.googleapis.com/css2?family=Russo+One&family=Exo+2:wght@400;700&display=swap',
+    },
+    palette: {
+        background: '#050a10',
+        title: '#ff7a00',
+        glow: '#ff7a00',
+        tagline: '#a5c8e4',
+    },
+    prompt: {
+        variables: {
+            city: 'Mecha City',
+            era: 'the near future',
+        },
+        fragments: {
+            intro: 'Reimagine the pet in this photo as {{persona}}, keeping its face, markings and personality recognisable.',
+            crewIntro: 'Reimagine the {{count}} pets in these photos together in one image as {{persona}}, keeping each one\'s face, markings and personality recognisable.',
+            portrait: 'The image should be a detailed, photorealistic render of the machine.',
+        },
+        lookPersona: 'a giant battle mecha called "{{name}}"',
+    },
+    archetypes: [
+        {
+            name: 'Unit Woof-01',
+            persona: 'a giant bipedal battle mecha called "{{name}}"',
+            outfit: 'heavy orange armor plating with hazard stripes',
+            props: 'shoulder-mounted rocket pods and a wagging antenna tail',
+            expression: 'loyal and eager',
+            setting: 'in a hangar full of cranes and sparks',
+            lighting: 'industrial floodlights',
+            filmStock: 'a crisp anime-inspired 3D render',
+        },
+        {
+            name: 'Stealth Purr',
+            persona: 'a sleek stealth mecha called "{{name}}"',
+            outfit: 'matte black panels with glowing purple seams',
+            props: 'retractable plasma claws',
+            expression: 'aloof and watchful',
+            setting: 'crouched on a skyscraper ledge at night',
+            lighting: 'city lights far below',
+            filmStock: 'a moody sci-fi concept art render',
+        },
+        {
+            name: 'Tank Tortoise',
+            persona: 'a massive siege mecha called "{{name}}"',
+            outfit: 'a riveted steel shell with moss growing in the seams',
+            props: 'a turret on its back',
+            expression: 'patient and unstoppable',
+            setting: 'crossing a misty battlefield',
+            lighting: 'overcast morning light',
+            filmStock: 'a weathered, realistic war-machine render',
+        },
+    ],
+    lookbook: {
+        title: [
+            { text: 'MECHA', color: '#ff7a00' },
+            { text: 'MENAGERIE', color: '#a5c8e4' },
+        ],
+        background: '#0b141d',
+        paper: '#e6edf3',
+        captionColor: '#0b141d',
+        grain: false,
+        fileName: 'mecha-menagerie-lookbook',
+    },
+};
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ThemePack } from './types.ts';
+
+export const rave90s: ThemePack = {
+    id: 'rave90s',
+    name: "Rave '95",
+    copy: {
+        title: "Rave '95",
+        tagline: 'The warehouse is packed and the strobe never stops.',
+        uploadHint: 'Click the card to upload your photo and get on the guest list.',
+        generateButton: 'Drop the Beat',
+        remixIdea: 'to see yourself as a 90s rave DJ.',
+    },
+    fonts: {
+        display: "'Bungee Shade', cursive",
+        body: "'VT323', monospace",
+        caption: "'Permanent Marker', cursive",
+        stylesheet: 'https://fonts.googleapis.com/css2?family=Bungee+Shade&family=VT323&display=swap',
+    },
+    palette: {
+        background: '#0a0014',
+        title: '#d9ff00',
+        glow: '#7cff00',
+        tagline: '#e9d5ff',
+    },
+    prompt: {
+        variables: {
+            city: 'Berlin',
+            era: 'the mid-1990s',
+        },
+        lookPersona: 'a {{city}} rave DJ from {{era}} known as "{{name}}"',
+    },
+    archetypes: [
+        {
+            name: 'DJ Acid Andi',
+            persona: 'a legendary {{city}} techno DJ from {{era}} known as "{{name}}"',
+            outfit: 'an oversized acid-yellow smiley T-shirt and baggy cargo pants',
+            hair: 'bleached spiky hair',
+            props: 'a pair of Technics turntables and big headphones around the neck',
+            expression: 'lost in the music, eyes half closed',
+            setting: 'behind the decks in a packed, sweaty warehouse rave',
+            lighting: 'green lasers slicing through thick fog',
+            filmStock: 'a grainy, motion-blurred disposable-camera flash photo',
+        },
+        {
+            name: 'Love-Parade Lena',
+            persona: 'a {{city}} raver from {{era}} known as "{{name}}"',
+            outfit: 'a fluffy pink faux-fur vest, a holographic crop top and platform sneakers',
+            hair: 'two space buns with glitter',
+            props: 'a whistle on a lanyard and neon glow sticks',
+            expression: 'beaming and euphoric',
+            setting: 'on top of a parade float on a crowded boulevard',
+            lighting: 'bright summer daylight',
+            filmStock: 'a saturated 90s magazine photo',
+        },
+        {
+            name: 'MC Basslord',
+            persona: 'a {{city}} jungle MC from {{era}} known as "{{name}}"',
+            outfit: 'a shiny tracksuit top and a bucket hat',
+            props: 'a microphone held close and a stack of speakers',
+            expression: 'mid-shout, full of energy',
+            setting: 'on a small club stage with a wall of subwoofers',
+            lighting: 'red and blue strobes',
+            filmStock: 'a high-contrast flyer photo printed on cheap paper',
+        },
+    ],
+    lookbook: {
+        title: [
+            { text: 'RAVE', color: '#d9ff00' },
+            { text: "'95", color: '#ff2bd6' },
+        ],
+        background: '#12001f',
+        paper: '#fafafa',
+        captionColor: '#111',
+        grain: true,
+        fileName: 'rave-95-lookbook',
+    },
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ThemePack } from './types.ts';
+
+export const synthwave: ThemePack = {
+    id: 'synthwave',
+    name: 'Outrun',
+    copy: {
+        title: 'Outrun',
+        tagline: 'Chrome sunsets and endless grid highways.',
+        uploadHint: 'Click the card to upload your photo and press play.',
+        generateButton: 'Press Play',
+        remixIdea: 'to design a synthwave album cover.',
+    },
+    fonts: {
+        display: "'Audiowide', cursive",
+        body: "'Special Elite', cursive",
+        caption: "'Permanent Marker', cursive",
+        stylesheet: 'https://fonts.googleapis.com/css2?family=Audiowide&display=swap',
+    },
+    palette: {
+        background: '#1a0033',
+        title: '#ff6ad5',
+        glow: '#ff6ad5',
+        tagline: '#94d0ff',
+    },
+    prompt: {
+        variables: {
+            city: 'Miami',
+            era: 'a retro-futuristic 1980s',
+        },
+        fragments: {
+            portrait: 'The image should look like a synthwave album cover with the person as the star.',
+        },
+        lookPersona: 'a synthwave star from {{era}} called "{{name}}"',
+    },
+    archetypes: [
+        {
+            name: 'Night Driver',
+            persona: 'the cover star of "{{name}}", a synthwave album from {{era}}',
+            outfit: 'a white blazer with rolled-up sleeves over a pastel T-shirt',
+            props: 'a red sports car with pop-up headlights',
+            expression: 'cool behind mirrored sunglasses',
+            setting: 'on a neon grid highway heading into a huge striped sunset',
+            lighting: 'hot pink and purple backlight',
+            filmStock: 'airbrushed 80s album art with chrome lettering',
+        },
+        {
+            name: 'Laser Lover',
+            persona: 'the cover star of "{{name}}", a synthwave album from {{era}}',
+            outfit: 'a sequined jacket with shoulder pads',
+            hair: 'big, glossy 80s hair',
+            props: 'a keytar',
+            expression: 'dramatic and longing',
+            setting: 'in front of a wireframe mountain range under a starry sky',
+            lighting: 'cyan and magenta lasers',
+            filmStock: 'a glowing, VHS-tinted album cover',
+        },
+        {
+            name: 'Palm Tape',
+            persona: 'the cover star of "{{name}}", a synthwave album from {{era}} in {{city}}',
+            outfit: 'a Hawaiian shirt and linen trousers',
+            props: 'a cassette Walkman with orange foam headphones',
+            expression: 'dreamy',
+            setting: 'among silhouetted palm trees by the ocean at dusk',
+            lighting: 'a low purple sunset glow',
+            filmStock: 'a soft-focus, grainy cassette insert photo',
+        },
+    ],
+    lookbook: {
+        title: [
+            { text: 'OUTRUN', color: '#ff6ad5' },
+            { text: 'VOL. 1', color: '#94d0ff' },
+        ],
+        background: '#1a0033',
+        paper: '#fff4fb',
+        captionColor: '#2a0a4a',
+        grain: false,
+        fileName: 'outrun-lookbook',
+    },
+};
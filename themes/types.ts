@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ArchetypeSpec, PromptStyle } from '../services/prompts.ts';
+
+export interface LookbookTitleLine {
+    text: string;
+    color: string;
+}
+
+/** How the downloadable lookbook page is drawn. */
+export interface LookbookStyle {
+    /** Lines of the page title, each drawn with a glow in its own color. */
+    title: LookbookTitleLine[];
+    background: string;
+    /** Color of the frame around each photo. */
+    paper: string;
+    captionColor: string;
+    /** Scatter specks over the background for a worn, printed feel. */
+    grain: boolean;
+    fileName: string;
+}
+
+/**
+ * A theme pack bundles everything that makes up one era or scene: the
+ * archetypes and how their prompts are worded, the page copy, fonts and
+ * colors, and the lookbook styling.
+ */
+export interface ThemePack {
+    id: string;
+    /** Shown in the pack switcher. */
+    name: string;
+    copy: {
+        title: string;
+        tagline: string;
+        uploadHint: string;
+        generateButton: string;
+        /** Completes "Try another scene..." in the footer. */
+        remixIdea: string;
+    };
+    fonts: {
+        /** CSS font-family names; must be loaded by `stylesheet` or index.html. */
+        display: string;
+        body: string;
+        caption: string;
+        /** Google Fonts (or other) stylesheet to load when the pack is used. */
+        stylesheet?: string;
+    };
+    palette: {
+        background: string;
+        title: string;
+        glow: string;
+        tagline: string;
+    };
+    prompt: PromptStyle;
+    /** Bundled archetypes; a custom `template` replaces the pack's for that archetype only. */
+    archetypes: ({ name: string; template?: string } & ArchetypeSpec)[];
+    lookbook: LookbookStyle;
+}
@@ -1,6 +1,23 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import type { Plugin } from 'vite';
+import { createGenerateHandler } from './server/generateHandler.ts';
+
+// Mounts the generation proxy on the dev and preview servers so the key
+// from .env.local is used server-side and never inlined into the bundle.
+function generateProxy(apiKey: string | undefined): Plugin {
+    const handler = createGenerateHandler({ apiKey });
+    return {
+        name: 'generate-proxy',
+        configureServer(server) {
+            server.middlewares.use(handler);
+        },
+        configurePreviewServer(server) {
+            server.middlewares.use(handler);
+        },
+    };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +26,10 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), generateProxy(env.GEMINI_API_KEY)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER || 'proxy'),
+        'process.env.FAKE_CAMERA': JSON.stringify(env.FAKE_CAMERA || '')
       },
       resolve: {
         alias: {